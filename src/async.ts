@@ -0,0 +1,315 @@
+import { InvalidArgumentError } from "./errors.js";
+import {
+	checkEndsAsync,
+	evaluateAsync,
+	midpointBigint,
+	midpointDouble,
+	midpointInteger,
+	shouldContinueDouble,
+	validateMidpoint,
+	validateRange,
+	validateSafeIntegers,
+} from "./internal.js";
+
+/**
+ * A predicate that may resolve asynchronously.
+ * @param value - The value to check.
+ * @returns `true` (or a promise of `true`) if the value satisfies the condition, `false` otherwise.
+ * @remarks This function should be monotonic within the range.
+ */
+export type AsyncPredicate<T> = (value: T) => boolean | PromiseLike<boolean>;
+
+/**
+ * Asynchronous counterpart of `binarySearch` for predicates that return a promise.
+ * @example
+ * import { binarySearchAsync } from "binary-search-generalized/async";
+ * const result = await binarySearchAsync(
+ *   0,
+ *   100,
+ *   async (value) => value ** 2 <= 180,
+ *   (low, high) => Math.floor(low / 4 + high / 4) * 2, // Always returns an even number
+ *   2, // The minimum difference between two distinct even numbers is 2
+ * );
+ * // result is 12
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
+ * @param epsilon - The maximum acceptable error margin for the search.
+ * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally validates that each midpoint strictly reduces the interval.
+ * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError | TypeError} If invalid values or conditions are specified. Rejects with `signal.reason` when aborted.
+ * @function
+ */
+export const binarySearchAsync: {
+	/**
+	 * Asynchronous counterpart of `binarySearch` for predicates that return a promise.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - An asynchronous function that checks if a value satisfies the condition.
+	 * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
+	 * @param epsilon - The maximum acceptable error margin for the search.
+	 * @param safety - Controls runtime checks.
+	 * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+	 * @returns A promise of the boundary value that satisfies the condition.
+	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+	 */
+	(
+		alwaysEnd: number,
+		neverEnd: number,
+		predicate: AsyncPredicate<number>,
+		midpoint: (low: number, high: number) => number,
+		epsilon: number,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "strict",
+		signal?: AbortSignal,
+	): Promise<number>;
+	/**
+	 * Asynchronous counterpart of `binarySearch` for predicates that return a promise.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - An asynchronous function that checks if a value satisfies the condition.
+	 * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
+	 * @param epsilon - The maximum acceptable error margin for the search.
+	 * @param safety - Controls runtime checks.
+	 * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+	 * @returns A promise of the boundary value that satisfies the condition.
+	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+	 */
+	(
+		alwaysEnd: bigint,
+		neverEnd: bigint,
+		predicate: AsyncPredicate<bigint>,
+		midpoint: (low: bigint, high: bigint) => bigint,
+		epsilon: bigint,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "strict",
+		signal?: AbortSignal,
+	): Promise<bigint>;
+} = async <T extends number | bigint>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: AsyncPredicate<T>,
+	midpoint: (low: T, high: T) => T,
+	epsilon: T,
+	safety: "check" | "nocheck" | "strict" = "check",
+	signal?: AbortSignal,
+): Promise<T> => {
+	validateRange(alwaysEnd, neverEnd, epsilon);
+
+	const alwaysIsLower = alwaysEnd < neverEnd;
+	let low = alwaysIsLower ? alwaysEnd : neverEnd;
+	let high = alwaysIsLower ? neverEnd : alwaysEnd;
+
+	if (safety === "check" || safety === "strict") {
+		await checkEndsAsync(alwaysEnd, neverEnd, predicate, signal);
+	}
+
+	while (high - low > epsilon) {
+		const middle = midpoint(low, high);
+		if (safety === "strict") validateMidpoint(middle, low, high);
+		if ((await evaluateAsync(predicate, middle, signal)) === alwaysIsLower) {
+			low = middle;
+		} else high = middle;
+	}
+
+	return alwaysIsLower ? low : high;
+};
+
+/**
+ * Asynchronous counterpart of `binarySearchInteger`.
+ * @example
+ * import { binarySearchIntegerAsync } from "binary-search-generalized/async";
+ * const controller = new AbortController();
+ * const rps = await binarySearchIntegerAsync(
+ *   1,
+ *   100_000,
+ *   async (value) => (await runLoadTest(value)).p99 < 200,
+ *   "check",
+ *   controller.signal,
+ * );
+ * // rps is the highest request rate whose p99 latency stays under 200ms
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const binarySearchIntegerAsync = async (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: AsyncPredicate<number>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	signal?: AbortSignal,
+): Promise<number> => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
+
+	return binarySearchAsync(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointInteger,
+		1,
+		safety,
+		signal,
+	);
+};
+
+/**
+ * Asynchronous counterpart of `binarySearchBigint`.
+ * @example
+ * import { binarySearchBigintAsync } from "binary-search-generalized/async";
+ * const result = await binarySearchBigintAsync(
+ *   100n,
+ *   0n,
+ *   async (value) => 2n ** value >= 10n ** 21n,
+ * );
+ * // result is 70n
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchBigintAsync = async (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	predicate: AsyncPredicate<bigint>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	signal?: AbortSignal,
+): Promise<bigint> => {
+	return binarySearchAsync(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointBigint,
+		1n,
+		safety,
+		signal,
+	);
+};
+
+/**
+ * Asynchronous counterpart of `binarySearchDouble`.
+ * @example
+ * import { binarySearchDoubleAsync } from "binary-search-generalized/async";
+ * const result = await binarySearchDoubleAsync(
+ *   0,
+ *   Math.PI / 2,
+ *   async (value) => Math.sin(value) <= 0.5,
+ * );
+ * // result ≈ Math.PI / 6
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchDoubleAsync = async (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: AsyncPredicate<number>,
+	/** @default "auto" */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	signal?: AbortSignal,
+): Promise<number> => {
+	if (epsilon === "auto") {
+		if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
+			throw new InvalidArgumentError(
+				"alwaysEnd and neverEnd must be finite numbers",
+				["alwaysEnd", "neverEnd"],
+			);
+		}
+		return binarySearchGeneralizedAsync(
+			alwaysEnd,
+			neverEnd,
+			predicate,
+			midpointDouble,
+			shouldContinueDouble,
+			safety,
+			signal,
+		);
+	}
+
+	return binarySearchAsync(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointDouble,
+		epsilon,
+		safety,
+		signal,
+	);
+};
+
+/**
+ * Asynchronous counterpart of `binarySearchGeneralized`.
+ * @example
+ * import { binarySearchGeneralizedAsync } from "binary-search-generalized/async";
+ * const offset = await binarySearchGeneralizedAsync(
+ *   0n,
+ *   10n ** 9n,
+ *   async (offset) => (await db.rowAt(offset)).createdAt < cutoff,
+ *   (always, never) => (always + never) / 2n,
+ *   (always, never) => never - always > 1n,
+ * );
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param midpoint - A function that determines the midpoint between two values.
+ * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param signal - An `AbortSignal` that cancels the search between predicate evaluations.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified. Rejects with `signal.reason` when aborted.
+ */
+export const binarySearchGeneralizedAsync = async <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: AsyncPredicate<T>,
+	/**
+	 * A function that determines the midpoint between two values.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 * @returns The midpoint between the two values.
+	 */
+	midpoint: (always: T, never: T) => T,
+	/**
+	 * A function that determines whether to continue the search based on the difference between `never` and `always`.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 * @returns `true` if the search should continue, `false` otherwise.
+	 */
+	shouldContinue: (always: T, never: T) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	signal?: AbortSignal,
+): Promise<T> => {
+	if (safety === "check") {
+		await checkEndsAsync(alwaysEnd, neverEnd, predicate, signal);
+	}
+
+	let always = alwaysEnd;
+	let never = neverEnd;
+
+	while (shouldContinue(always, never)) {
+		const middle = midpoint(always, never);
+		if (await evaluateAsync(predicate, middle, signal)) always = middle;
+		else never = middle;
+	}
+
+	return always;
+};
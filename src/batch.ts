@@ -0,0 +1,232 @@
+import {
+	bigintDomain,
+	doubleDomain,
+	integerDomain,
+	type SearchDomain,
+} from "./domain.js";
+import { PreconditionError } from "./errors.js";
+import { validateRange } from "./internal.js";
+
+/**
+ * @private
+ * Queries that share the same bracket, by their indices.
+ */
+type Group<T> = {
+	readonly always: T;
+	readonly never: T;
+	readonly indices: readonly number[];
+};
+
+/**
+ * Performs a binary search for many queries at once over the values of a domain, sharing the evaluations of an oracle.
+ *
+ * The search runs in rounds. Queries whose brackets are still the same share a probe, and the oracle is evaluated once per probe,
+ * so the first round evaluates it once for all queries, the second at most twice, and so on.
+ * @example
+ * import { integerDomain } from "binary-search-generalized";
+ * import { batchSearch } from "binary-search-generalized/batch";
+ * const limits = batchSearch(0, 1_000_000, (units) => costOf(units), budgets, (cost, budget) => cost <= budget, integerDomain);
+ * // limits[i] is the largest number of units whose cost is within budgets[i]
+ * @param alwaysEnd - The value that always satisfies every query and is one end of the range.
+ * @param neverEnd - The value that never satisfies any query and is the other end of the range.
+ * @param oracle - The expensive function shared by the queries. It is evaluated at most once per value.
+ * @param queries - The queries, such as targets or thresholds.
+ * @param predicate - Checks if the result of the oracle satisfies a query. For each query, it should be monotonic within the range.
+ * @param domain - The values to search, such as {@link integerDomain}. Its `validate` is called first.
+ * @param safety - Controls runtime checks. `"check"` evaluates the oracle at both ends and validates that every query satisfies the precondition. Use `"nocheck"` to skip it.
+ * @returns The boundary value of each query, in the order of `queries`.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks To search many predicates, pass them as the queries with `(result, query) => query(result)`.
+ */
+export const batchSearch = <T, R, Q>(
+	alwaysEnd: T,
+	neverEnd: T,
+	oracle: (value: T) => R,
+	queries: readonly Q[],
+	/**
+	 * Checks if the result of the oracle satisfies a query.
+	 * @param result - The result of the oracle at the probed value.
+	 * @param query - The query to check.
+	 * @returns `true` if the result satisfies the query, `false` otherwise.
+	 * @remarks For each query, this function should be monotonic within the range.
+	 */
+	predicate: (result: R, query: Q) => boolean,
+	domain: SearchDomain<T>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): T[] => {
+	domain.validate?.(alwaysEnd, neverEnd);
+	if (safety === "check" && queries.length > 0) {
+		const alwaysResult = oracle(alwaysEnd);
+		const neverResult = oracle(neverEnd);
+		for (const query of queries) {
+			if (!predicate(alwaysResult, query)) {
+				throw new PreconditionError("alwaysEnd", alwaysEnd);
+			}
+			if (predicate(neverResult, query)) {
+				throw new PreconditionError("neverEnd", neverEnd);
+			}
+		}
+	}
+
+	const results = new Array<T>(queries.length).fill(alwaysEnd);
+	let groups: Group<T>[] = [
+		{
+			always: alwaysEnd,
+			never: neverEnd,
+			indices: Array.from(queries, (_, i) => i),
+		},
+	];
+	while (groups.length > 0) {
+		const next: Group<T>[] = [];
+		for (const { always, never, indices } of groups) {
+			if (indices.length === 0) continue;
+			if (!domain.shouldContinue(always, never)) {
+				for (const i of indices) results[i] = always;
+				continue;
+			}
+			// Groups have disjoint brackets, so no value is probed twice
+			const middle = domain.midpoint(always, never);
+			const result = oracle(middle);
+			const satisfied: number[] = [];
+			const unsatisfied: number[] = [];
+			for (const i of indices) {
+				// biome-ignore lint/style/noNonNullAssertion: i is always valid index
+				(predicate(result, queries[i]!) ? satisfied : unsatisfied).push(i);
+			}
+			next.push(
+				{ always: middle, never, indices: satisfied },
+				{ always, never: middle, indices: unsatisfied },
+			);
+		}
+		groups = next;
+	}
+	return results;
+};
+
+/**
+ * Performs a binary search for many queries at once over a range of integer values, sharing the evaluations of an oracle.
+ * @example
+ * import { batchSearchInteger } from "binary-search-generalized/batch";
+ * const limits = batchSearchInteger(0, 1_000_000, (units) => costOf(units), budgets, (cost, budget) => cost <= budget);
+ * // limits[i] is the largest number of units whose cost is within budgets[i]
+ * @param alwaysEnd - The value that always satisfies every query and is one end of the range.
+ * @param neverEnd - The value that never satisfies any query and is the other end of the range.
+ * @param oracle - The expensive function shared by the queries. It is evaluated at most once per value.
+ * @param queries - The queries, such as targets or thresholds.
+ * @param predicate - Checks if the result of the oracle satisfies a query. For each query, it should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @returns The boundary value of each query, in the order of `queries`.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const batchSearchInteger = <R, Q>(
+	alwaysEnd: number,
+	neverEnd: number,
+	oracle: (value: number) => R,
+	queries: readonly Q[],
+	predicate: (result: R, query: Q) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): number[] =>
+	batchSearch(
+		alwaysEnd,
+		neverEnd,
+		oracle,
+		queries,
+		predicate,
+		integerDomain,
+		safety,
+	);
+
+/**
+ * Performs a binary search for many queries at once over a range of bigint values, sharing the evaluations of an oracle.
+ * @example
+ * import { batchSearchBigint } from "binary-search-generalized/batch";
+ * const roots = batchSearchBigint(0n, 10n ** 20n, (value) => value * value, [2n, 10n ** 30n], (square, n) => square <= n);
+ * // roots is [1n, 10n ** 15n]
+ * @param alwaysEnd - The value that always satisfies every query and is one end of the range.
+ * @param neverEnd - The value that never satisfies any query and is the other end of the range.
+ * @param oracle - The expensive function shared by the queries. It is evaluated at most once per value.
+ * @param queries - The queries, such as targets or thresholds.
+ * @param predicate - Checks if the result of the oracle satisfies a query. For each query, it should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @returns The boundary value of each query, in the order of `queries`.
+ * @throws {RangeError} If invalid conditions are specified.
+ */
+export const batchSearchBigint = <R, Q>(
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	oracle: (value: bigint) => R,
+	queries: readonly Q[],
+	predicate: (result: R, query: Q) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): bigint[] =>
+	batchSearch(
+		alwaysEnd,
+		neverEnd,
+		oracle,
+		queries,
+		predicate,
+		bigintDomain,
+		safety,
+	);
+
+/**
+ * Performs a binary search for many queries at once over a range of double‑precision floating‑point values, sharing the evaluations of an oracle.
+ * @example
+ * import { batchSearchDouble } from "binary-search-generalized/batch";
+ * const angles = batchSearchDouble(0, Math.PI / 2, Math.sin, [0.25, 0.5, 0.75], (sine, target) => sine <= target);
+ * // angles[i] is approximately Math.asin of the i-th target
+ * @param alwaysEnd - The value that always satisfies every query and is one end of the range.
+ * @param neverEnd - The value that never satisfies any query and is the other end of the range.
+ * @param oracle - The expensive function shared by the queries. It is evaluated at most once per value.
+ * @param queries - The queries, such as targets or thresholds.
+ * @param predicate - Checks if the result of the oracle satisfies a query. For each query, it should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @returns The boundary value of each query, in the order of `queries`.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const batchSearchDouble = <R, Q>(
+	alwaysEnd: number,
+	neverEnd: number,
+	oracle: (value: number) => R,
+	queries: readonly Q[],
+	predicate: (result: R, query: Q) => boolean,
+	/**
+	 * The maximum acceptable error margin for the search.
+	 * - a positive number: absolute termination gap; must be representable at the scale of the endpoints.
+	 * - "auto" (default): the limit precision of double‑precision floating‑point values.
+	 * @default "auto"
+	 */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): number[] => {
+	if (epsilon === "auto") {
+		return batchSearch(
+			alwaysEnd,
+			neverEnd,
+			oracle,
+			queries,
+			predicate,
+			doubleDomain,
+			safety,
+		);
+	}
+	validateRange(alwaysEnd, neverEnd, epsilon);
+	return batchSearch(
+		alwaysEnd,
+		neverEnd,
+		oracle,
+		queries,
+		predicate,
+		{
+			...doubleDomain,
+			shouldContinue: (always, never) => Math.abs(never - always) > epsilon,
+		},
+		safety,
+	);
+};
@@ -0,0 +1,198 @@
+import {
+	InvalidArgumentError,
+	InvalidArgumentTypeError,
+	PreconditionError,
+} from "./errors.js";
+import {
+	midpointBigint,
+	midpointDouble,
+	midpointInteger,
+	shouldContinueDouble,
+	validateRange,
+	validateSafeIntegers,
+} from "./internal.js";
+
+/**
+ * @private
+ * Receives the result of a probe and checks that it is a boolean.
+ */
+const expectBoolean = (result: unknown): boolean => {
+	if (typeof result !== "boolean") {
+		throw new InvalidArgumentTypeError(
+			"the result of a probe must be passed to next() as a boolean",
+			["result"],
+		);
+	}
+	return result;
+};
+
+/**
+ * Performs a generalized binary search where the caller answers each probe.
+ *
+ * The generator yields the value to evaluate and expects its predicate result through `next(result)`.
+ * It returns the boundary value when the search is done.
+ * @example
+ * import { bisect } from "binary-search-generalized/bisect";
+ * const search = bisect(
+ *   0,
+ *   100,
+ *   (always, never) => Math.floor((always + never) / 2),
+ *   (always, never) => Math.abs(never - always) > 1,
+ * );
+ * let step = search.next();
+ * while (!step.done) {
+ *   step = search.next(await askUser(step.value));
+ * }
+ * // step.value is the boundary value
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param midpoint - A function that determines the midpoint between two values.
+ * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+ * @param safety - Controls runtime checks. `"check"` yields both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A generator yielding probes, receiving their results, and returning the boundary value that satisfies the condition.
+ * @throws {PreconditionError} If an endpoint result violates the precondition.
+ * @throws {TypeError} If `next` is called without a boolean result after the first call.
+ */
+export const bisect = function* <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	/**
+	 * A function that determines the midpoint between two values.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 * @returns The midpoint between the two values.
+	 */
+	midpoint: (always: T, never: T) => T,
+	/**
+	 * A function that determines whether to continue the search based on the difference between `never` and `always`.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 * @returns `true` if the search should continue, `false` otherwise.
+	 */
+	shouldContinue: (always: T, never: T) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): Generator<T, T, boolean> {
+	if (safety === "check") {
+		if (!expectBoolean(yield alwaysEnd)) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (expectBoolean(yield neverEnd)) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+	}
+
+	let always = alwaysEnd;
+	let never = neverEnd;
+	while (shouldContinue(always, never)) {
+		const middle = midpoint(always, never);
+		if (expectBoolean(yield middle)) always = middle;
+		else never = middle;
+	}
+
+	return always;
+};
+
+/**
+ * Performs a binary search over a range of integer values where the caller answers each probe.
+ * @example
+ * import { bisectInteger } from "binary-search-generalized/bisect";
+ * const search = bisectInteger(0, 100, "nocheck");
+ * search.next(); // { value: 50, done: false }
+ * search.next(false); // { value: 25, done: false }
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param safety - Controls runtime checks. `"check"` yields both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A generator yielding probes, receiving their results, and returning the boundary value.
+ * @throws {RangeError} If invalid values are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const bisectInteger = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): Generator<number, number, boolean> => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
+	validateRange(alwaysEnd, neverEnd, 1);
+	return bisect(
+		alwaysEnd,
+		neverEnd,
+		midpointInteger,
+		(always, never) => Math.abs(never - always) > 1,
+		safety,
+	);
+};
+
+/**
+ * Performs a binary search over a range of bigint values where the caller answers each probe.
+ * @example
+ * import { bisectBigint } from "binary-search-generalized/bisect";
+ * const search = bisectBigint(0n, 10n ** 18n, "nocheck");
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param safety - Controls runtime checks. `"check"` yields both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A generator yielding probes, receiving their results, and returning the boundary value.
+ * @throws {RangeError | TypeError} If invalid values are specified.
+ */
+export const bisectBigint = (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): Generator<bigint, bigint, boolean> => {
+	validateRange(alwaysEnd, neverEnd, 1n);
+	return bisect(
+		alwaysEnd,
+		neverEnd,
+		midpointBigint,
+		(always, never) => never - always > 1n || always - never > 1n,
+		safety,
+	);
+};
+
+/**
+ * Performs a binary search over a range of double‑precision floating‑point values where the caller answers each probe.
+ * @example
+ * import { bisectDouble } from "binary-search-generalized/bisect";
+ * const search = bisectDouble(0, 1, 0.001, "nocheck");
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param safety - Controls runtime checks. `"check"` yields both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A generator yielding probes, receiving their results, and returning the boundary value.
+ * @throws {RangeError | TypeError} If invalid values are specified.
+ */
+export const bisectDouble = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/** @default "auto" */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): Generator<number, number, boolean> => {
+	if (epsilon === "auto") {
+		if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
+			throw new InvalidArgumentError(
+				"alwaysEnd and neverEnd must be finite numbers",
+				["alwaysEnd", "neverEnd"],
+			);
+		}
+		return bisect(
+			alwaysEnd,
+			neverEnd,
+			midpointDouble,
+			shouldContinueDouble,
+			safety,
+		);
+	}
+
+	validateRange(alwaysEnd, neverEnd, epsilon);
+	return bisect(
+		alwaysEnd,
+		neverEnd,
+		midpointDouble,
+		(always, never) => Math.abs(never - always) > epsilon,
+		safety,
+	);
+};
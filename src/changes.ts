@@ -0,0 +1,95 @@
+import { bigintDomain, integerDomain, type SearchDomain } from "./domain.js";
+import { splitSegments } from "./internal.js";
+
+/**
+ * A point where a function changes its value.
+ * @template T - The type of the searched values.
+ * @template V - The type of the function values.
+ */
+export type ChangePoint<T, V> = {
+	/** The last value before the change, seen from `from`. */
+	readonly last: T;
+	/** The first value after the change, next to `last`. */
+	readonly first: T;
+	/** The function value at `last`. */
+	readonly before: V;
+	/** The function value at `first`. */
+	readonly after: V;
+};
+
+/**
+ * Enumerates the points where a piecewise‑constant function changes its value, over the values of a domain.
+ *
+ * The range is split in halves recursively, and a segment whose ends have equal values is not split further.
+ * @example
+ * import { integerDomain } from "binary-search-generalized";
+ * import { findChangePoints } from "binary-search-generalized/changes";
+ * const changes = findChangePoints(0, 99, (i) => Math.floor(i / 40), integerDomain);
+ * // [{ last: 39, first: 40, before: 0, after: 1 }, { last: 79, first: 80, before: 1, after: 2 }]
+ * @param from - One end of the range.
+ * @param to - The other end of the range.
+ * @param f - The function. It does not need to be monotonic.
+ * @param domain - The values to search, such as {@link integerDomain}. Its `validate` is called first.
+ * @param equals - Returns `true` if two function values are equal. Defaults to `Object.is`.
+ * @returns The change points in order from `from` to `to`.
+ * @throws {RangeError} If invalid values are specified.
+ * @remarks A segment whose ends have equal values is assumed to be constant, so a run of changes that returns to the
+ * same value inside such a segment (e.g. a regression that was reverted) is missed unless a probe lands inside the run.
+ */
+export const findChangePoints = <T, V>(
+	from: T,
+	to: T,
+	f: (value: T) => V,
+	domain: SearchDomain<T>,
+	equals: (a: V, b: V) => boolean = Object.is,
+): ChangePoint<T, V>[] => {
+	domain.validate?.(from, to);
+	return splitSegments(from, to, f, domain, equals).map(
+		([last, first, before, after]) => ({ last, first, before, after }),
+	);
+};
+
+/**
+ * Enumerates the indices where a piecewise‑constant function over a range of integer values changes its value.
+ * @example
+ * import { findChangePointsInteger } from "binary-search-generalized/changes";
+ * const changes = findChangePointsInteger(0, builds.length - 1, (i) => benchmarkBucket(builds[i]));
+ * // each change point holds the last build before a change, the first build after it, and both buckets
+ * @param from - One end of the range, included in the search.
+ * @param to - The other end of the range, included in the search.
+ * @param f - The function. It does not need to be monotonic.
+ * @param equals - Returns `true` if two function values are equal. Defaults to `Object.is`.
+ * @returns The change points in order from `from` to `to`, each between adjacent integers.
+ * @throws {RangeError} If invalid values are specified.
+ * @remarks `from` and `to` must be safe integers (`Number.isSafeInteger`). Changes that return to the same value
+ * between two probes with equal values are missed; see {@link findChangePoints}.
+ */
+export const findChangePointsInteger = <V>(
+	from: number,
+	to: number,
+	f: (value: number) => V,
+	equals?: (a: V, b: V) => boolean,
+): ChangePoint<number, V>[] =>
+	findChangePoints(from, to, f, integerDomain, equals);
+
+/**
+ * Enumerates the indices where a piecewise‑constant function over a range of bigint values changes its value.
+ * @example
+ * import { findChangePointsBigint } from "binary-search-generalized/changes";
+ * const changes = findChangePointsBigint(0n, 10n ** 12n, (offset) => schemaVersionAt(offset));
+ * // each change point holds the last offset of a schema version and the first offset of the next
+ * @param from - One end of the range, included in the search.
+ * @param to - The other end of the range, included in the search.
+ * @param f - The function. It does not need to be monotonic.
+ * @param equals - Returns `true` if two function values are equal. Defaults to `Object.is`.
+ * @returns The change points in order from `from` to `to`, each between adjacent bigints.
+ * @throws {TypeError} If `from` or `to` is not a bigint.
+ * @remarks Changes that return to the same value between two probes with equal values are missed; see {@link findChangePoints}.
+ */
+export const findChangePointsBigint = <V>(
+	from: bigint,
+	to: bigint,
+	f: (value: bigint) => V,
+	equals?: (a: V, b: V) => boolean,
+): ChangePoint<bigint, V>[] =>
+	findChangePoints(from, to, f, bigintDomain, equals);
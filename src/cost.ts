@@ -0,0 +1,252 @@
+import { InvalidArgumentError } from "./errors.js";
+import type { EvaluationOptions } from "./evaluation.js";
+import { binarySearchGeneralized } from "./index.js";
+import {
+	fromOrderedBits,
+	toOrderedBits,
+	validateRange,
+	validateSafeIntegers,
+} from "./internal.js";
+
+/**
+ * A cost model: the estimated cost (e.g. time) of evaluating the predicate at a value. It must return a non‑negative finite number.
+ * @template T - The type of the searched values.
+ */
+export type CostModel<T> = (value: T) => number;
+
+/**
+ * @private
+ * The number of cells the bracket is divided into when planning the next probe.
+ */
+const CELLS = 32;
+
+/**
+ * @private
+ * Base‑2 logarithm of a positive bigint, precise enough for comparing estimates even beyond the range of numbers.
+ */
+const log2 = (value: bigint): number => {
+	const shift = BigInt(Math.max(value.toString(2).length - 53, 0));
+	return Math.log2(Number(value >> shift)) + Number(shift);
+};
+
+/**
+ * @private
+ * Creates a midpoint and a termination rule over values mapped to consecutive integer positions.
+ *
+ * The midpoint divides the bracket into cells and plans the search over their edges by dynamic programming, minimizing the expected
+ * total cost with the boundary equally likely at any position. Searching inside a cell is estimated as the cost at its middle
+ * times the number of probes it needs. The first probe of the plan is returned; the plan is made again for the next bracket.
+ */
+const createCostAwareSearch = <T>(
+	cost: CostModel<T>,
+	toPosition: (value: T) => bigint,
+	fromPosition: (position: bigint) => T,
+) => {
+	const evaluate = (position: bigint): number => {
+		const result = cost(fromPosition(position));
+		if (!(result >= 0 && result < Number.POSITIVE_INFINITY)) {
+			throw new InvalidArgumentError(
+				"cost must return a non-negative finite number",
+				["cost"],
+			);
+		}
+		return result;
+	};
+	return {
+		midpoint: (always: T, never: T): T => {
+			const from = toPosition(always);
+			const gap = toPosition(never) - from;
+			const cells = Math.min(CELLS, Number(gap < 0n ? -gap : gap));
+			const edges = Array.from(
+				{ length: cells + 1 },
+				(_, i) => from + (gap * BigInt(i)) / BigInt(cells),
+			);
+			// expected[i * size + j] is the least expected cost of searching between edges i and j, and first[i * size + j] its first probe
+			const size = cells + 1;
+			const expected = new Array<number>(size * size).fill(0);
+			const first = new Array<number>(size * size).fill(0);
+			const probeCosts = edges.map((edge, i) =>
+				i === 0 || i === cells ? 0 : evaluate(edge),
+			);
+			for (let i = 0; i < cells; i++) {
+				// biome-ignore lint/style/noNonNullAssertion: i is always valid index
+				const start = edges[i]!;
+				// biome-ignore lint/style/noNonNullAssertion: i + 1 is always valid index
+				const width = edges[i + 1]! - start;
+				const length = width < 0n ? -width : width;
+				if (length > 1n) {
+					expected[i * size + i + 1] =
+						evaluate(start + width / 2n) * log2(length);
+				}
+			}
+			for (let span = 2; span <= cells; span++) {
+				for (let i = 0; i + span <= cells; i++) {
+					const j = i + span;
+					let least = Number.POSITIVE_INFINITY;
+					for (let k = i + 1; k < j; k++) {
+						const fraction = (k - i) / span;
+						const total =
+							// biome-ignore lint/style/noNonNullAssertion: k is always valid index
+							probeCosts[k]! +
+							// biome-ignore lint/style/noNonNullAssertion: i * size + k is always valid index
+							fraction * expected[i * size + k]! +
+							// biome-ignore lint/style/noNonNullAssertion: k * size + j is always valid index
+							(1 - fraction) * expected[k * size + j]!;
+						if (total < least) {
+							least = total;
+							first[i * size + j] = k;
+						}
+					}
+					expected[i * size + j] = least;
+				}
+			}
+			// biome-ignore lint/style/noNonNullAssertion: the first probe is always a valid edge
+			return fromPosition(edges[first[cells]!]!);
+		},
+		shouldContinue: (always: T, never: T): boolean => {
+			const gap = toPosition(never) - toPosition(always);
+			return gap > 1n || gap < -1n;
+		},
+	};
+};
+
+/**
+ * Performs a binary search over a range of integer values, choosing split points that minimize the estimated total cost of the probes
+ * instead of their number.
+ *
+ * Useful when the cost of the predicate depends on the value, e.g. simulating `n` users takes time proportional to `n`:
+ * the probes then lean toward the cheap side. The expected cost is minimized with the boundary equally likely at any integer of the range,
+ * so the savings grow with how unevenly the cost varies. The result is the same as `binarySearchInteger`.
+ * @example
+ * import { binarySearchIntegerCostAware } from "binary-search-generalized/cost";
+ * const capacity = binarySearchIntegerCostAware(1, 100_000, (users) => simulate(users).ok, (users) => users);
+ * // capacity is the most users the system handles, as with binarySearchInteger, with less expected simulation time
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param cost - The estimated cost of evaluating the predicate at a value. Only its ratios matter. It is called about 60 times per probe, so it should be cheap.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`), as in `binarySearchInteger`.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified, or if `cost` returns a negative or non‑finite number.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const binarySearchIntegerCostAware = (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: (value: number) => boolean,
+	cost: CostModel<number>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<number>,
+): number => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
+	const { midpoint, shouldContinue } = createCostAwareSearch(
+		cost,
+		BigInt,
+		Number,
+	);
+	return binarySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpoint,
+		shouldContinue,
+		safety,
+		options,
+	);
+};
+
+/**
+ * Performs a binary search over a range of bigint values, choosing split points that minimize the estimated total cost of the probes
+ * instead of their number. The result is the same as `binarySearchBigint`.
+ * @example
+ * import { binarySearchBigintCostAware } from "binary-search-generalized/cost";
+ * const size = binarySearchBigintCostAware(1n, 2n ** 40n, (bytes) => fits(bytes), (bytes) => Number(bytes));
+ * // size is the largest input that fits, as with binarySearchBigint, with less expected work
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param cost - The estimated cost of evaluating the predicate at a value. Only its ratios matter. It is called about 60 times per probe, so it should be cheap.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`), as in `binarySearchBigint`.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid conditions are specified, or if `cost` returns a negative or non‑finite number.
+ * @throws {TypeError} If `alwaysEnd` or `neverEnd` is not a bigint.
+ */
+export const binarySearchBigintCostAware = (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	predicate: (value: bigint) => boolean,
+	cost: CostModel<bigint>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<bigint>,
+): bigint => {
+	validateRange(alwaysEnd, neverEnd, 1n);
+	const { midpoint, shouldContinue } = createCostAwareSearch(
+		cost,
+		(value) => value,
+		(position) => position,
+	);
+	return binarySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpoint,
+		shouldContinue,
+		safety,
+		options,
+	);
+};
+
+/**
+ * Performs a binary search over a range of double‑precision floating‑point values, choosing split points that minimize the estimated
+ * total cost of the probes instead of their number.
+ *
+ * Like `binarySearchDouble` with `"exact"`, it searches the ordered sequence of doubles and ends on adjacent doubles, with the same result.
+ * The boundary is assumed to be equally likely at any double of the range.
+ * @example
+ * import { binarySearchDoubleCostAware } from "binary-search-generalized/cost";
+ * const step = binarySearchDoubleCostAware(1e-6, 1, (dt) => stable(dt), (dt) => 1 / dt);
+ * // step is the largest stable time step; small steps take more iterations to simulate
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param cost - The estimated cost of evaluating the predicate at a value. Only its ratios matter. It is called about 60 times per probe, so it should be cheap.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`), as in `binarySearchDouble`.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified, or if `cost` returns a negative or non‑finite number.
+ * @remarks `alwaysEnd` and `neverEnd` must not be `NaN`.
+ */
+export const binarySearchDoubleCostAware = (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: (value: number) => boolean,
+	cost: CostModel<number>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<number>,
+): number => {
+	if (Number.isNaN(alwaysEnd) || Number.isNaN(neverEnd)) {
+		throw new InvalidArgumentError("alwaysEnd and neverEnd must not be NaN", [
+			"alwaysEnd",
+			"neverEnd",
+		]);
+	}
+	const { midpoint, shouldContinue } = createCostAwareSearch(
+		cost,
+		toOrderedBits,
+		fromOrderedBits,
+	);
+	return binarySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpoint,
+		shouldContinue,
+		safety,
+		options,
+	);
+};
@@ -0,0 +1,174 @@
+import { InvalidArgumentError } from "./errors.js";
+import { binarySearchGeneralized } from "./index.js";
+
+/**
+ * The unit whose boundaries the date search probes.
+ */
+export type DateGranularity =
+	| "millisecond"
+	| "second"
+	| "minute"
+	| "hour"
+	| "day"
+	| "month";
+
+/**
+ * Options of {@link binarySearchDate}.
+ */
+export type DateSearchOptions = {
+	/**
+	 * The unit whose boundaries are probed. `"month"` follows the calendar, so months have different lengths.
+	 * @default "millisecond"
+	 */
+	readonly granularity?: DateGranularity;
+	/**
+	 * The offset of the time zone from UTC in minutes, positive east of Greenwich (e.g. `540` for UTC+09:00).
+	 * Days and months start at midnight at this offset. It is fixed, so daylight saving time is not applied.
+	 * @default 0
+	 */
+	readonly utcOffset?: number;
+	/**
+	 * Controls runtime checks. Use `"nocheck"` to skip precondition check.
+	 * @default "check"
+	 */
+	readonly safety?: "check" | "nocheck";
+};
+
+/**
+ * @private
+ * The length of each fixed‑length unit in milliseconds.
+ */
+const unitLengths = {
+	millisecond: 1,
+	second: 1000,
+	minute: 60_000,
+	hour: 3_600_000,
+	day: 86_400_000,
+} as const;
+
+/**
+ * @private
+ * Numbers the boundaries of a granularity: `floor` returns the number of the last boundary at or before a time,
+ * and `boundary` returns the time of a numbered boundary.
+ */
+type Units = {
+	readonly floor: (time: number) => number;
+	readonly boundary: (index: number) => number;
+};
+
+/**
+ * @private
+ * Returns the numbering of the boundaries of a granularity at an offset in milliseconds.
+ */
+const createUnits = (granularity: DateGranularity, offset: number): Units => {
+	if (granularity === "month") {
+		const date = new Date(0);
+		return {
+			floor: (time) => {
+				date.setTime(time + offset);
+				return date.getUTCFullYear() * 12 + date.getUTCMonth();
+			},
+			boundary: (index) => {
+				const month = ((index % 12) + 12) % 12;
+				date.setTime(0);
+				date.setUTCFullYear((index - month) / 12, month, 1);
+				return date.getTime() - offset;
+			},
+		};
+	}
+	const length = unitLengths[granularity];
+	return {
+		floor: (time) => Math.floor((time + offset) / length),
+		boundary: (index) => index * length - offset,
+	};
+};
+
+/**
+ * @private
+ * Converts a date or epoch milliseconds to epoch milliseconds.
+ */
+const toTime = (value: Date | number): number =>
+	value instanceof Date ? value.getTime() : new Date(value).getTime();
+
+/**
+ * Performs a binary search over dates, probing only the boundaries of a granularity such as hours or calendar months.
+ * @example
+ * import { binarySearchDate } from "binary-search-generalized/date";
+ * const lastHealthyDay = binarySearchDate(
+ *   new Date("2025-01-01T00:00:00+09:00"),
+ *   new Date("2025-07-01T00:00:00+09:00"),
+ *   (date) => metricAt(date) <= threshold,
+ *   { granularity: "day", utcOffset: 540 },
+ * );
+ * // lastHealthyDay is the start of the last day (at UTC+09:00) whose metric is within the threshold
+ * @param alwaysEnd - The date (or epoch milliseconds) that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The date (or epoch milliseconds) that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a date satisfies the condition. This function should be monotonic within the range.
+ * @param options - The granularity, the UTC offset of its boundaries and the safety mode.
+ * @returns The boundary date that satisfies the condition: `alwaysEnd` itself, or the boundary of a unit between the endpoints.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks The endpoints do not need to lie on boundaries. The search ends when no boundary lies strictly between the bracket,
+ * so with a granularity of `"day"`, the result and the next date that does not satisfy the condition are at most one day apart.
+ */
+export const binarySearchDate = (
+	alwaysEnd: Date | number,
+	neverEnd: Date | number,
+	/**
+	 * A function that checks if a date satisfies the condition.
+	 * @param value - The date to check. A new `Date` is passed for each call.
+	 * @returns `true` if the date satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: Date) => boolean,
+	options?: DateSearchOptions,
+): Date => {
+	const granularity = options?.granularity ?? "millisecond";
+	const utcOffset = options?.utcOffset ?? 0;
+	const always = toTime(alwaysEnd);
+	const never = toTime(neverEnd);
+	if (Number.isNaN(always) || Number.isNaN(never)) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must be valid dates",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+	if (
+		granularity !== "month" &&
+		!Object.keys(unitLengths).includes(granularity)
+	) {
+		throw new InvalidArgumentError(`unknown granularity: ${granularity}`, [
+			"granularity",
+		]);
+	}
+	if (!Number.isInteger(utcOffset) || Math.abs(utcOffset) >= 1440) {
+		throw new InvalidArgumentError(
+			"utcOffset must be an integer number of minutes within a day",
+			["utcOffset"],
+		);
+	}
+
+	const { floor, boundary } = createUnits(granularity, utcOffset * 60_000);
+	// The numbers of the first and the last boundaries strictly between two times
+	const inner = (time1: number, time2: number): [number, number] => {
+		const low = Math.min(time1, time2);
+		const high = Math.max(time1, time2);
+		const last = floor(high);
+		return [floor(low) + 1, boundary(last) === high ? last - 1 : last];
+	};
+
+	const result = binarySearchGeneralized(
+		always,
+		never,
+		(time) => predicate(new Date(time)),
+		(time1, time2) => {
+			const [first, last] = inner(time1, time2);
+			return boundary(Math.floor(first / 2 + last / 2));
+		},
+		(time1, time2) => {
+			const [first, last] = inner(time1, time2);
+			return first <= last;
+		},
+		options?.safety ?? "check",
+	);
+	return new Date(result);
+};
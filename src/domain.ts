@@ -0,0 +1,179 @@
+import { InvalidArgumentError, InvalidArgumentTypeError } from "./errors.js";
+import {
+	midpointBigint,
+	midpointDouble,
+	midpointInteger,
+	shouldContinueDouble,
+	validateSafeIntegers,
+} from "./internal.js";
+
+/**
+ * The values a search runs over: a midpoint and a termination rule designed together, an order, and optional validation of the endpoints.
+ *
+ * Pass a domain to `binarySearchGeneralized` in place of the `midpoint` and `shouldContinue` pair,
+ * or one domain per component to `ndBinarySearch`.
+ * @template T - The type of the searched values.
+ */
+export type SearchDomain<T> = {
+	/**
+	 * Returns a value strictly between two values while `shouldContinue` returns `true` for them.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 */
+	readonly midpoint: (always: T, never: T) => T;
+	/**
+	 * Returns `false` once no value of the domain lies between two values (or the search is precise enough).
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 */
+	readonly shouldContinue: (always: T, never: T) => boolean;
+	/**
+	 * Compares two values.
+	 * @returns A negative number if `a < b`, a positive number if `a > b`, and zero if they are equal.
+	 */
+	readonly compare: (a: T, b: T) => number;
+	/**
+	 * Throws if the endpoints are not values of the domain. Called before the search, in every safety mode.
+	 * @throws {RangeError | TypeError} If the endpoints are invalid.
+	 */
+	readonly validate?: (alwaysEnd: T, neverEnd: T) => void;
+};
+
+/**
+ * @private
+ * Compares two numbers or two bigints.
+ */
+const compareValues = <T extends number | bigint>(a: T, b: T): number =>
+	a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * The safe integers, as searched by `binarySearchInteger`.
+ * @example
+ * import { binarySearchGeneralized, integerDomain } from "binary-search-generalized";
+ * const result = binarySearchGeneralized(0, 100, (value) => value ** 2 <= 180, integerDomain);
+ * // result is 13
+ */
+export const integerDomain: SearchDomain<number> = {
+	midpoint: midpointInteger,
+	shouldContinue: (always, never) => Math.abs(never - always) > 1,
+	compare: compareValues,
+	validate: validateSafeIntegers,
+};
+
+/**
+ * The bigints, as searched by `binarySearchBigint`.
+ */
+export const bigintDomain: SearchDomain<bigint> = {
+	midpoint: midpointBigint,
+	shouldContinue: (always, never) => never - always > 1n || always - never > 1n,
+	compare: compareValues,
+	validate: (alwaysEnd, neverEnd) => {
+		if (typeof alwaysEnd !== "bigint" || typeof neverEnd !== "bigint") {
+			throw new InvalidArgumentTypeError(
+				"alwaysEnd and neverEnd must be bigints",
+				["alwaysEnd", "neverEnd"],
+			);
+		}
+	},
+};
+
+/**
+ * The finite doubles, as searched by `binarySearchDouble` with the `"auto"` epsilon: the search ends within one ULP.
+ */
+export const doubleDomain: SearchDomain<number> = {
+	midpoint: midpointDouble,
+	shouldContinue: shouldContinueDouble,
+	compare: compareValues,
+	validate: (alwaysEnd, neverEnd) => {
+		if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
+			throw new InvalidArgumentError(
+				"alwaysEnd and neverEnd must be finite numbers",
+				["alwaysEnd", "neverEnd"],
+			);
+		}
+	},
+};
+
+/**
+ * Returns the domain of the grid `origin + k * step` for integers `k`, such as even numbers or multiples of 0.25.
+ * @example
+ * import { binarySearchGeneralized, stepDomain } from "binary-search-generalized";
+ * const result = binarySearchGeneralized(0, 100, (value) => value ** 2 <= 180, stepDomain(2));
+ * // result is 12, the largest even number whose square is at most 180
+ * @param step - The distance between neighbouring values. Must be a positive finite number.
+ * @param origin - A value on the grid.
+ * @returns The domain. Its `validate` requires both endpoints on the grid, within a few ulps.
+ * @throws {RangeError} If `step` or `origin` is invalid.
+ * @remarks For fractional steps, values are computed as `origin + k * step`, so they are the nearest doubles to the grid points.
+ * Endpoints within rounding error of a grid point, such as `0.3` for `stepDomain(0.1)`, are accepted.
+ */
+export const stepDomain = (step: number, origin = 0): SearchDomain<number> => {
+	if (!(step > 0) || !Number.isFinite(step) || !Number.isFinite(origin)) {
+		throw new InvalidArgumentError(
+			"step must be a positive finite number and origin must be finite",
+			["step", "origin"],
+		);
+	}
+	const index = (value: number) => Math.round((value - origin) / step);
+	return {
+		midpoint: (always, never) =>
+			origin + midpointInteger(index(always), index(never)) * step,
+		shouldContinue: (always, never) =>
+			Math.abs(index(never) - index(always)) > 1,
+		compare: compareValues,
+		validate: (alwaysEnd, neverEnd) => {
+			for (const value of [alwaysEnd, neverEnd]) {
+				const k = index(value);
+				const grid = origin + k * step;
+				// Allow the rounding of `k * step` and of the value itself, e.g. `3 * 0.1` for `0.3`
+				const tolerance =
+					4 *
+					Number.EPSILON *
+					Math.max(Math.abs(value), Math.abs(origin), Math.abs(k * step));
+				if (
+					!Number.isSafeInteger(k) ||
+					!(Math.abs(grid - value) <= tolerance)
+				) {
+					throw new InvalidArgumentError(
+						"alwaysEnd and neverEnd must lie on the grid",
+						["alwaysEnd", "neverEnd"],
+					);
+				}
+			}
+		},
+	};
+};
+
+/**
+ * The even safe integers.
+ */
+export const evenDomain: SearchDomain<number> = stepDomain(2);
+
+/**
+ * The powers of two (`2 ** k` for integers `k`, including fractions such as `0.5`), bisected by exponent.
+ * @example
+ * import { binarySearchGeneralized, powerOfTwoDomain } from "binary-search-generalized";
+ * const bufferSize = binarySearchGeneralized(1, 2 ** 30, (size) => size <= 100_000, powerOfTwoDomain);
+ * // bufferSize is 65536
+ */
+export const powerOfTwoDomain: SearchDomain<number> = {
+	midpoint: (always, never) =>
+		2 ** midpointInteger(Math.log2(always), Math.log2(never)),
+	shouldContinue: (always, never) =>
+		Math.abs(Math.log2(never) - Math.log2(always)) > 1,
+	compare: compareValues,
+	validate: (alwaysEnd, neverEnd) => {
+		for (const value of [alwaysEnd, neverEnd]) {
+			if (
+				!(value > 0) ||
+				!Number.isFinite(value) ||
+				2 ** Math.round(Math.log2(value)) !== value
+			) {
+				throw new InvalidArgumentError(
+					"alwaysEnd and neverEnd must be powers of two",
+					["alwaysEnd", "neverEnd"],
+				);
+			}
+		}
+	},
+};
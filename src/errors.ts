@@ -0,0 +1,271 @@
+/**
+ * The stable, machine‑readable codes of the errors thrown by the searches.
+ */
+export type SearchErrorCode =
+	| "PRECONDITION_VIOLATION"
+	| "NON_CONVERGENT_MIDPOINT"
+	| "EPSILON_NOT_REPRESENTABLE"
+	| "DIMENSION_MISMATCH"
+	| "MONOTONICITY_VIOLATION"
+	| "UNIMODALITY_VIOLATION"
+	| "LEVEL_ORDER_VIOLATION"
+	| "BOUNDARY_NOT_FOUND"
+	| "INVALID_ARGUMENT"
+	| "INVALID_ARGUMENT_TYPE";
+
+/**
+ * Thrown when an endpoint does not meet the precondition: `alwaysEnd` must satisfy the condition and `neverEnd` must not.
+ */
+export class PreconditionError<T = unknown> extends RangeError {
+	override readonly name = "PreconditionError";
+	readonly code = "PRECONDITION_VIOLATION";
+	/** The endpoint that violates the precondition. */
+	readonly end: "alwaysEnd" | "neverEnd";
+	/** The value of that endpoint. */
+	readonly value: T;
+
+	constructor(end: "alwaysEnd" | "neverEnd", value: T) {
+		super(
+			end === "alwaysEnd"
+				? "alwaysEnd must satisfy the condition"
+				: "neverEnd must not satisfy the condition",
+		);
+		this.end = end;
+		this.value = value;
+	}
+}
+
+/**
+ * Thrown in the `"strict"` and `"verify"` safety modes when a midpoint does not lie strictly between the bounds.
+ */
+export class NonConvergentMidpointError<T = unknown> extends RangeError {
+	override readonly name = "NonConvergentMidpointError";
+	readonly code = "NON_CONVERGENT_MIDPOINT";
+	/** The value returned by the midpoint function. */
+	readonly midpoint: T;
+	/** The lower bound passed to the midpoint function. */
+	readonly low: T;
+	/** The upper bound passed to the midpoint function. */
+	readonly high: T;
+	/** The 1‑based step of the search, or `undefined` for a midpoint computed while verifying. */
+	readonly iteration: number | undefined;
+
+	constructor(midpoint: T, low: T, high: T, iteration?: number) {
+		super(
+			`midpoint function did not converge: got ${midpoint} with ${low} and ${high}`,
+		);
+		this.midpoint = midpoint;
+		this.low = low;
+		this.high = high;
+		this.iteration = iteration;
+	}
+}
+
+/**
+ * Thrown when `epsilon` is too small to change `alwaysEnd` or `neverEnd`, so the search could not terminate.
+ */
+export class EpsilonNotRepresentableError<T = unknown> extends RangeError {
+	override readonly name = "EpsilonNotRepresentableError";
+	readonly code = "EPSILON_NOT_REPRESENTABLE";
+	/** The requested epsilon. */
+	readonly epsilon: T;
+	/** The value that always satisfies the condition. */
+	readonly alwaysEnd: T;
+	/** The value that never satisfies the condition. */
+	readonly neverEnd: T;
+
+	constructor(epsilon: T, alwaysEnd: T, neverEnd: T) {
+		super(
+			"epsilon must be representable at the precision of alwaysEnd and neverEnd",
+		);
+		this.epsilon = epsilon;
+		this.alwaysEnd = alwaysEnd;
+		this.neverEnd = neverEnd;
+	}
+}
+
+/**
+ * Thrown by `ndBinarySearch` when the input vectors and per‑dimension functions have different lengths.
+ * With per‑dimension domains, `midpoint` and `shouldContinue` are both the number of domains.
+ */
+export class DimensionMismatchError extends RangeError {
+	override readonly name = "DimensionMismatchError";
+	readonly code = "DIMENSION_MISMATCH";
+	/** The lengths of the inputs. */
+	readonly lengths: {
+		readonly alwaysEnd: number;
+		readonly neverEnd: number;
+		readonly midpoint: number;
+		readonly shouldContinue: number;
+	};
+
+	constructor(lengths: DimensionMismatchError["lengths"]) {
+		super("All input vectors must have the same length");
+		this.lengths = lengths;
+	}
+}
+
+/**
+ * Thrown in the `"verify"` safety mode when two evaluated values contradict the monotonicity of the predicate.
+ */
+export class MonotonicityError<T = unknown> extends RangeError {
+	override readonly name = "MonotonicityError";
+	readonly code = "MONOTONICITY_VIOLATION";
+	/** The value nearer to `alwaysEnd`, which does not satisfy the condition. */
+	readonly unsatisfied: T;
+	/** The value farther from `alwaysEnd`, which satisfies the condition. */
+	readonly satisfied: T;
+
+	constructor(unsatisfied: T, satisfied: T) {
+		super(
+			`predicate is not monotonic: ${unsatisfied} does not satisfy the condition but ${satisfied}, which is farther from alwaysEnd, does`,
+		);
+		this.unsatisfied = unsatisfied;
+		this.satisfied = satisfied;
+	}
+}
+
+/**
+ * Thrown by the unimodal searches in the `"check"` safety mode when an evaluated value is worse than values on both sides of it.
+ */
+export class UnimodalityError<T = unknown> extends RangeError {
+	override readonly name = "UnimodalityError";
+	readonly code = "UNIMODALITY_VIOLATION";
+	/** The evaluated value on the lower side. */
+	readonly left: T;
+	/** The evaluated value between them, whose result is worse than both. */
+	readonly middle: T;
+	/** The evaluated value on the higher side. */
+	readonly right: T;
+
+	constructor(left: T, middle: T, right: T) {
+		super(
+			`function is not unimodal: the result at ${middle} is worse than the results at ${left} and ${right}`,
+		);
+		this.left = left;
+		this.middle = middle;
+		this.right = right;
+	}
+}
+
+/**
+ * Thrown by the level searches in the `"check"` safety mode when two evaluated levels are out of order.
+ */
+export class LevelOrderError<T = unknown, V = unknown> extends RangeError {
+	override readonly name = "LevelOrderError";
+	readonly code = "LEVEL_ORDER_VIOLATION";
+	/** The value nearer to `from`. */
+	readonly earlier: T;
+	/** The level at `earlier`, which comes after `laterLevel`. */
+	readonly earlierLevel: V;
+	/** The value farther from `from`. */
+	readonly later: T;
+	/** The level at `later`. */
+	readonly laterLevel: V;
+
+	constructor(earlier: T, earlierLevel: V, later: T, laterLevel: V) {
+		super(
+			`levels are out of order: ${earlier} is at level ${earlierLevel} but ${later}, which is farther from from, is at the earlier level ${laterLevel}`,
+		);
+		this.earlier = earlier;
+		this.earlierLevel = earlierLevel;
+		this.later = later;
+		this.laterLevel = laterLevel;
+	}
+}
+
+/**
+ * Thrown when an unbounded search reaches its limit without finding a value that does not satisfy the condition.
+ */
+export class BoundaryNotFoundError<T = unknown> extends RangeError {
+	override readonly name = "BoundaryNotFoundError";
+	readonly code = "BOUNDARY_NOT_FOUND";
+	/** The farthest value probed, which still satisfied the condition. */
+	readonly limit: T;
+
+	constructor(limit: T) {
+		super(
+			`no value that does not satisfy the condition was found up to ${limit}`,
+		);
+		this.limit = limit;
+	}
+}
+
+/**
+ * Thrown when an argument has an invalid value, e.g. a non‑finite endpoint or a non‑positive epsilon.
+ */
+export class InvalidArgumentError extends RangeError {
+	override readonly name = "InvalidArgumentError";
+	readonly code = "INVALID_ARGUMENT";
+	/** The names of the offending arguments. */
+	readonly argumentNames: readonly string[];
+
+	constructor(message: string, args: readonly string[]) {
+		super(message);
+		this.argumentNames = args;
+	}
+}
+
+/**
+ * Thrown when arguments have invalid types, e.g. a `number` endpoint with a `bigint` epsilon.
+ */
+export class InvalidArgumentTypeError extends TypeError {
+	override readonly name = "InvalidArgumentTypeError";
+	readonly code = "INVALID_ARGUMENT_TYPE";
+	/** The names of the offending arguments. */
+	readonly argumentNames: readonly string[];
+
+	constructor(message: string, args: readonly string[]) {
+		super(message);
+		this.argumentNames = args;
+	}
+}
+
+/**
+ * Any error thrown by the searches with a {@link SearchErrorCode}.
+ */
+export type SearchError =
+	| PreconditionError
+	| NonConvergentMidpointError
+	| EpsilonNotRepresentableError
+	| DimensionMismatchError
+	| MonotonicityError
+	| UnimodalityError
+	| LevelOrderError
+	| BoundaryNotFoundError
+	| InvalidArgumentError
+	| InvalidArgumentTypeError;
+
+/**
+ * @private
+ * The codes of {@link SearchError}.
+ */
+const codes: ReadonlySet<unknown> = new Set<SearchErrorCode>([
+	"PRECONDITION_VIOLATION",
+	"NON_CONVERGENT_MIDPOINT",
+	"EPSILON_NOT_REPRESENTABLE",
+	"DIMENSION_MISMATCH",
+	"MONOTONICITY_VIOLATION",
+	"UNIMODALITY_VIOLATION",
+	"LEVEL_ORDER_VIOLATION",
+	"BOUNDARY_NOT_FOUND",
+	"INVALID_ARGUMENT",
+	"INVALID_ARGUMENT_TYPE",
+]);
+
+/**
+ * Checks whether a value is an error thrown by the searches, so that it can be handled by its `code`.
+ * @example
+ * import { binarySearchInteger, isSearchError } from "binary-search-generalized";
+ * try {
+ *   binarySearchInteger(0, 100, predicate);
+ * } catch (error) {
+ *   if (isSearchError(error) && error.code === "PRECONDITION_VIOLATION") {
+ *     console.log(error.end, error.value);
+ *   }
+ * }
+ * @param error - The caught value.
+ * @returns `true` if the value is a {@link SearchError}.
+ */
+export const isSearchError = (error: unknown): error is SearchError =>
+	error instanceof Error && "code" in error && codes.has(error.code);
@@ -0,0 +1,138 @@
+import { InvalidArgumentError } from "./errors.js";
+import type { SearchOptions } from "./trace.js";
+import type { VerifyOptions } from "./verify.js";
+
+/**
+ * A store of predicate results, such as a `Map` or a user‑supplied persistent store.
+ * @template K - The type of the cache keys.
+ */
+export type PredicateStore<K> = {
+	/**
+	 * @param key - The key of a value.
+	 * @returns The stored predicate result, or `undefined` if none is stored.
+	 */
+	get(key: K): boolean | undefined;
+	/**
+	 * @param key - The key of a value.
+	 * @param result - The predicate result at the value.
+	 */
+	set(key: K, result: boolean): unknown;
+};
+
+/**
+ * How predicate results are memoized.
+ * @template T - The type of the searched values.
+ * @template K - The type of the cache keys.
+ */
+export type PredicateCache<T, K = unknown> = {
+	/**
+	 * Maps a value to its cache key.
+	 * @default The value itself (suitable for `number` and `bigint`).
+	 */
+	readonly key?: (value: T) => K;
+	/**
+	 * The store of predicate results. Pass the same store to several searches to share results between them.
+	 * @default A new `Map` for each search.
+	 */
+	readonly store?: PredicateStore<K>;
+};
+
+/**
+ * Options of the searches that evaluate a predicate directly: instrumentation, memoization, an evaluation budget and verification.
+ * @template T - The type of the searched values.
+ */
+export type EvaluationOptions<T> = SearchOptions<T> &
+	VerifyOptions & {
+		/**
+		 * Memoizes predicate results, shared by the endpoint checks and the main loop. `true` uses a new `Map` keyed by the values themselves.
+		 */
+		readonly cache?: boolean | PredicateCache<T>;
+		/**
+		 * The maximum number of predicate evaluations, a non‑negative integer (cache hits are not counted). The endpoint checks always run and count toward it.
+		 * When no evaluation is left, the search stops and returns the bracket found so far.
+		 */
+		readonly maxEvaluations?: number;
+		/**
+		 * A time (`Date` or milliseconds since the epoch, as returned by `Date.now()`) after which no new evaluation is started.
+		 * When it has passed, the search stops and returns the bracket found so far.
+		 */
+		readonly deadline?: number | Date;
+	};
+
+/**
+ * The reason a search stopped before converging.
+ */
+export type StopReason = "maxEvaluations" | "deadline";
+
+/**
+ * @private
+ * A predicate wrapped with the memoization and budget of {@link EvaluationOptions}.
+ */
+export type Evaluator<T> = {
+	/** The memoized predicate. */
+	readonly predicate: (value: T) => boolean;
+	/** Returns why `value` cannot be evaluated, or `undefined` if it can (or its result is cached). */
+	readonly exhausted: (value: T) => StopReason | undefined;
+};
+
+/**
+ * @private
+ * Creates an evaluator for the options, or `undefined` when neither memoization nor a budget is requested.
+ */
+export const createEvaluator = <T>(
+	predicate: (value: T) => boolean,
+	options: EvaluationOptions<T> | undefined,
+): Evaluator<T> | undefined => {
+	const cache = options?.cache;
+	const maxEvaluations = options?.maxEvaluations;
+	const deadline =
+		options?.deadline instanceof Date
+			? options.deadline.getTime()
+			: options?.deadline;
+	if (
+		(cache === undefined || cache === false) &&
+		maxEvaluations === undefined &&
+		deadline === undefined
+	) {
+		return undefined;
+	}
+	if (
+		maxEvaluations !== undefined &&
+		(!Number.isSafeInteger(maxEvaluations) || maxEvaluations < 0)
+	) {
+		throw new InvalidArgumentError(
+			"maxEvaluations must be a non-negative integer",
+			["maxEvaluations"],
+		);
+	}
+
+	const { key = (value: T): unknown => value, store = new Map() } =
+		typeof cache === "object" ? cache : {};
+	const memoize = cache !== undefined && cache !== false;
+	let evaluations = 0;
+	return {
+		predicate: (value) => {
+			if (!memoize) {
+				evaluations++;
+				return predicate(value);
+			}
+			const k = key(value);
+			const cached = store.get(k);
+			if (cached !== undefined) return cached;
+			evaluations++;
+			const result = predicate(value);
+			store.set(k, result);
+			return result;
+		},
+		exhausted: (value) => {
+			if (memoize && store.get(key(value)) !== undefined) {
+				return undefined;
+			}
+			if (maxEvaluations !== undefined && evaluations >= maxEvaluations) {
+				return "maxEvaluations";
+			}
+			if (deadline !== undefined && Date.now() >= deadline) return "deadline";
+			return undefined;
+		},
+	};
+};
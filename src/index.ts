@@ -1,3 +1,180 @@
+import type { SearchDomain } from "./domain.js";
+import {
+	InvalidArgumentError,
+	NonConvergentMidpointError,
+	PreconditionError,
+} from "./errors.js";
+import {
+	createEvaluator,
+	type EvaluationOptions,
+	type StopReason,
+} from "./evaluation.js";
+import {
+	midpointBigint,
+	midpointDouble,
+	midpointDoubleExact,
+	midpointFloat32,
+	midpointInteger,
+	shouldContinueDouble,
+	shouldContinueDoubleExact,
+	shouldContinueFloat32,
+	validateMidpoint,
+	validateRange,
+	validateSafeIntegers,
+} from "./internal.js";
+import { createObserver, type SearchOptions } from "./trace.js";
+import { sampleChains, validateSamples } from "./verify.js";
+
+export {
+	bigintDomain,
+	doubleDomain,
+	evenDomain,
+	integerDomain,
+	powerOfTwoDomain,
+	type SearchDomain,
+	stepDomain,
+} from "./domain.js";
+export {
+	BoundaryNotFoundError,
+	DimensionMismatchError,
+	EpsilonNotRepresentableError,
+	InvalidArgumentError,
+	InvalidArgumentTypeError,
+	isSearchError,
+	LevelOrderError,
+	MonotonicityError,
+	NonConvergentMidpointError,
+	PreconditionError,
+	type SearchError,
+	type SearchErrorCode,
+	UnimodalityError,
+} from "./errors.js";
+export type {
+	EvaluationOptions,
+	PredicateCache,
+	PredicateStore,
+	StopReason,
+} from "./evaluation.js";
+export {
+	createSearchTrace,
+	type SearchBracket,
+	type SearchOptions,
+	type SearchStep,
+	type SearchTrace,
+} from "./trace.js";
+export type { VerifyOptions } from "./verify.js";
+
+/**
+ * The final bracket of a search.
+ * @template T - The type of the searched values.
+ */
+export type Bracket<T> = {
+	/** The boundary value (the most extreme value on the "always" side). */
+	readonly always: T;
+	/** The value next to `always` on the "never" side; the boundary lies between `always` and `never`. */
+	readonly never: T;
+	/** The number of midpoint probes. */
+	readonly iterations: number;
+	/** Why the search stopped before converging (see {@link EvaluationOptions}), or `undefined` if it converged. */
+	readonly stopped?: StopReason;
+};
+
+/**
+ * @private
+ * Implementation of {@link binarySearch} and {@link binarySearchBracket}.
+ */
+const _binarySearchBracket = <T extends number | bigint>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: (value: T) => boolean,
+	midpoint: (low: T, high: T) => T,
+	epsilon: T,
+	safety: "check" | "nocheck" | "strict" | "verify" = "check",
+	options?: EvaluationOptions<T>,
+): Bracket<T> => {
+	validateRange(alwaysEnd, neverEnd, epsilon);
+
+	const alwaysIsLower = alwaysEnd < neverEnd;
+	let low = alwaysIsLower ? alwaysEnd : neverEnd;
+	let high = alwaysIsLower ? neverEnd : alwaysEnd;
+	let iterations = 0;
+
+	const observer = createObserver(options);
+	if (observer !== undefined) predicate = observer.count(predicate);
+	const evaluator = createEvaluator(predicate, options);
+	if (evaluator !== undefined) predicate = evaluator.predicate;
+	const samples = options?.verifySamples ?? 0;
+	if (safety === "verify") validateSamples(samples);
+
+	if (safety !== "nocheck") {
+		if (!predicate(alwaysEnd)) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (predicate(neverEnd)) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+	}
+
+	if (safety !== "check" || observer !== undefined || evaluator !== undefined) {
+		let stopped: StopReason | undefined;
+		// The evaluated values on each side, from the ends toward the boundary
+		const alwaysChain = [alwaysEnd];
+		const neverChain = [neverEnd];
+		observer?.enter(low, high);
+		while (high - low > epsilon) {
+			const middle = midpoint(low, high);
+			if (safety === "strict" || safety === "verify") {
+				validateMidpoint(middle, low, high, iterations + 1);
+			}
+			stopped = evaluator?.exhausted(middle);
+			if (stopped !== undefined) break;
+			const result = predicate(middle);
+			observer?.probe(low, high, middle, result);
+			if (result === alwaysIsLower) low = middle;
+			else high = middle;
+			observer?.enter(low, high);
+			iterations++;
+			if (safety === "verify") (result ? alwaysChain : neverChain).push(middle);
+		}
+
+		// Sampling would evaluate past the budget, so it is skipped when the search stopped early
+		if (safety === "verify" && stopped === undefined) {
+			sampleChains<T>(
+				alwaysChain,
+				neverChain,
+				predicate,
+				(nearer, farther) => {
+					const lower = nearer < farther ? nearer : farther;
+					const upper = nearer < farther ? farther : nearer;
+					const middle = midpoint(lower, upper);
+					validateMidpoint(middle, lower, upper);
+					return middle;
+				},
+				(nearer, farther) =>
+					((nearer < farther ? farther - nearer : nearer - farther) as T) >
+					epsilon,
+				samples,
+			);
+		}
+
+		const bracket = alwaysIsLower
+			? { always: low, never: high, iterations }
+			: { always: high, never: low, iterations };
+		return stopped === undefined ? bracket : { ...bracket, stopped };
+	}
+
+	while (high - low > epsilon) {
+		const middle = midpoint(low, high);
+		if (predicate(middle) === alwaysIsLower) low = middle;
+		else high = middle;
+		iterations++;
+	}
+
+	return alwaysIsLower
+		? { always: low, never: high, iterations }
+		: { always: high, never: low, iterations };
+};
+
 /**
  * Performs a generalized binary search over a range of primitive numeric values (`number` or `bigint`).
  * @example
@@ -16,9 +193,11 @@
  * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
  * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
  * @param epsilon - The maximum acceptable error margin for the search.
- * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally validates that each midpoint strictly reduces the interval.
+ * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally validates that each midpoint strictly reduces the interval. "verify" does everything "strict" does and also checks the predicate at `options.verifySamples` extra points between the evaluated points (none by default, and none if the search stops early on the budget) and throws a {@link MonotonicityError} on a contradiction.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
  * @returns The boundary value that satisfies the condition (the most extreme value on the "always" side).
  * @throws {RangeError | TypeError} If invalid values or conditions are specified. "nocheck" only skips the endpoint precondition.
+ * @throws {MonotonicityError} In the `"verify"` safety mode, if two evaluated values contradict the monotonicity of the predicate.
  * @remarks Consider using {@link binarySearchInteger}, {@link binarySearchDouble}, or {@link binarySearchBigint} for specific numeric types, and {@link binarySearchArray} for arrays.
  * @see {@link binarySearchGeneralized} for non‑primitive numeric‑like values.
  * @function
@@ -42,7 +221,8 @@ export const binarySearch: {
 	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
 	 * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
 	 * @param epsilon - The maximum acceptable error margin for the search.
-	 * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally checks that the midpoint strictly reduces the interval each iteration.
+	 * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally checks that the midpoint strictly reduces the interval each iteration. "verify" also validates the midpoints, samples extra points and throws a `MonotonicityError` on a contradiction.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
 	 * @returns The boundary value that satisfies the condition.
 	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
 	 * @see {@link binarySearchGeneralized} for non‑primitive numeric‑like values.
@@ -69,7 +249,8 @@ export const binarySearch: {
 		 */
 		epsilon: number,
 		/** @default "check" */
-		safety?: "check" | "nocheck" | "strict",
+		safety?: "check" | "nocheck" | "strict" | "verify",
+		options?: EvaluationOptions<number>,
 	): number;
 	/**
 	 * Performs a generalized binary search over a range of primitive numeric values.
@@ -89,7 +270,8 @@ export const binarySearch: {
 	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
 	 * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
 	 * @param epsilon - The maximum acceptable error margin for the search.
-	 * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally checks that the midpoint strictly reduces the interval each iteration.
+	 * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally checks that the midpoint strictly reduces the interval each iteration. "verify" also validates the midpoints, samples extra points and throws a `MonotonicityError` on a contradiction.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
 	 * @returns The boundary value that satisfies the condition.
 	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
 	 * @see {@link binarySearchGeneralized} for non‑primitive numeric‑like values.
@@ -116,7 +298,8 @@ export const binarySearch: {
 		 */
 		epsilon: bigint,
 		/** @default "check" */
-		safety?: "check" | "nocheck" | "strict",
+		safety?: "check" | "nocheck" | "strict" | "verify",
+		options?: EvaluationOptions<bigint>,
 	): bigint;
 } = <T extends number | bigint>(
 	alwaysEnd: T,
@@ -124,78 +307,105 @@ export const binarySearch: {
 	predicate: (value: T) => boolean,
 	midpoint: (low: T, high: T) => T,
 	epsilon: T,
-	safety: "check" | "nocheck" | "strict" = "check",
-): T => {
-	const alwaysIsLower = alwaysEnd < neverEnd;
-	let low = alwaysIsLower ? alwaysEnd : neverEnd;
-	let high = alwaysIsLower ? neverEnd : alwaysEnd;
-
-	if (
-		typeof alwaysEnd !== typeof neverEnd ||
-		typeof epsilon !== typeof alwaysEnd
-	) {
-		throw new TypeError(
-			"alwaysEnd, neverEnd, and epsilon must be of the same type",
-		);
-	}
-
-	if (epsilon <= 0) {
-		throw new RangeError("epsilon must be positive");
-	}
-	if (high - low < epsilon) {
-		throw new RangeError(
-			"alwaysEnd and neverEnd must be different within the epsilon range",
-		);
-	}
-	if (typeof epsilon === "number") {
-		if (
-			!Number.isFinite(epsilon) ||
-			!Number.isFinite(alwaysEnd) ||
-			!Number.isFinite(neverEnd)
-		) {
-			throw new RangeError(
-				"alwaysEnd, neverEnd, and epsilon must be finite numbers",
-			);
-		}
-		if (high - epsilon === high || (low as number) + epsilon === low) {
-			throw new RangeError(
-				"epsilon must be representable at the precision of alwaysEnd and neverEnd",
-			);
-		}
-	}
-
-	if (safety === "check" || safety === "strict") {
-		if (!predicate(alwaysEnd)) {
-			throw new RangeError("alwaysEnd must satisfy the condition");
-		}
-		if (predicate(neverEnd)) {
-			throw new RangeError("neverEnd must not satisfy the condition");
-		}
-	}
-
-	if (safety === "strict") {
-		while (high - low > epsilon) {
-			const middle = midpoint(low, high);
-			if (Number.isNaN(middle) || middle >= high || middle <= low) {
-				throw new RangeError(
-					`midpoint function did not converge: got ${middle} with ${low} and ${high}`,
-				);
-			}
-			if (predicate(middle) === alwaysIsLower) low = middle;
-			else high = middle;
-		}
-
-		return alwaysIsLower ? low : high;
-	}
-
-	while (high - low > epsilon) {
-		const middle = midpoint(low, high);
-		if (predicate(middle) === alwaysIsLower) low = middle;
-		else high = middle;
-	}
+	safety: "check" | "nocheck" | "strict" | "verify" = "check",
+	options?: EvaluationOptions<T>,
+): T =>
+	_binarySearchBracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpoint,
+		epsilon,
+		safety,
+		options,
+	).always;
 
-	return alwaysIsLower ? low : high;
-};
+/**
+ * Like {@link binarySearch}, but returns the final bracket instead of only the boundary value.
+ * @example
+ * import { binarySearchBracket } from "binary-search-generalized";
+ * const { always, never, iterations } = binarySearchBracket(
+ *   0,
+ *   100,
+ *   (value) => value ** 2 <= 180,
+ *   (low, high) => Math.floor(low / 4 + high / 4) * 2,
+ *   2,
+ * );
+ * // always is 12, never is 14, iterations is 6
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
+ * @param epsilon - The maximum acceptable error margin for the search.
+ * @param safety - Controls runtime checks. "nocheck" skips the endpoint precondition (`predicate(alwaysEnd)` is true and `predicate(neverEnd)` is false). "strict" additionally validates that each midpoint strictly reduces the interval. "verify" does everything "strict" does and also checks the predicate at `options.verifySamples` extra points between the evaluated points (none by default, and none if the search stops early on the budget) and throws a {@link MonotonicityError} on a contradiction.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
+ * @returns The boundary value on the "always" side, the adjacent value on the "never" side, and the number of iterations.
+ * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+ * @function
+ */
+export const binarySearchBracket: {
+	/**
+	 * Like `binarySearch`, but returns the final bracket instead of only the boundary value.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+	 * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
+	 * @param epsilon - The maximum acceptable error margin for the search.
+	 * @param safety - Controls runtime checks.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
+	 * @returns The final bracket and the number of iterations.
+	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+	 */
+	(
+		alwaysEnd: number,
+		neverEnd: number,
+		predicate: (value: number) => boolean,
+		midpoint: (low: number, high: number) => number,
+		epsilon: number,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "strict" | "verify",
+		options?: EvaluationOptions<number>,
+	): Bracket<number>;
+	/**
+	 * Like `binarySearch`, but returns the final bracket instead of only the boundary value.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+	 * @param midpoint - A function that returns a point strictly inside (low, high) so one bound moves each iteration.
+	 * @param epsilon - The maximum acceptable error margin for the search.
+	 * @param safety - Controls runtime checks.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
+	 * @returns The final bracket and the number of iterations.
+	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+	 */
+	(
+		alwaysEnd: bigint,
+		neverEnd: bigint,
+		predicate: (value: bigint) => boolean,
+		midpoint: (low: bigint, high: bigint) => bigint,
+		epsilon: bigint,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "strict" | "verify",
+		options?: EvaluationOptions<bigint>,
+	): Bracket<bigint>;
+} = <T extends number | bigint>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: (value: T) => boolean,
+	midpoint: (low: T, high: T) => T,
+	epsilon: T,
+	safety: "check" | "nocheck" | "strict" | "verify" = "check",
+	options?: EvaluationOptions<T>,
+): Bracket<T> =>
+	_binarySearchBracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpoint,
+		epsilon,
+		safety,
+		options,
+	);
 
 /**
  * Performs a binary search over a range of integer values.
@@ -211,6 +421,7 @@ export const binarySearch: {
  * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
  * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
  * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
  * @returns The boundary value that satisfies the condition.
  * @throws {RangeError} If invalid values or conditions are specified.
  * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
@@ -227,21 +438,54 @@ export const binarySearchInteger = (
 	predicate: (value: number) => boolean,
 	/** @default "check" */
 	safety: "check" | "nocheck" = "check",
-) => {
-	if (
-		Number.isSafeInteger(alwaysEnd) === false ||
-		Number.isSafeInteger(neverEnd) === false
-	) {
-		throw new RangeError("alwaysEnd and neverEnd must be safe integers");
-	}
+	options?: EvaluationOptions<number>,
+): number =>
+	binarySearchIntegerBracket(alwaysEnd, neverEnd, predicate, safety, options)
+		.always;
+
+/**
+ * Like {@link binarySearchInteger}, but returns the final bracket instead of only the boundary value.
+ * @example
+ * import { binarySearchIntegerBracket } from "binary-search-generalized";
+ * const { always, never } = binarySearchIntegerBracket(
+ *   0,
+ *   100,
+ *   (value) => value ** 2 <= 180,
+ * );
+ * // always is 13 and never is 14
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
+ * @returns The boundary value, the adjacent integer that does not satisfy the condition, and the number of iterations.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const binarySearchIntegerBracket = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: number) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<number>,
+): Bracket<number> => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
 
-	return binarySearch(
+	return _binarySearchBracket(
 		alwaysEnd,
 		neverEnd,
 		predicate,
-		(low, high) => Math.floor(low / 2 + high / 2),
+		midpointInteger,
 		1,
 		safety,
+		options,
 	);
 };
 
@@ -259,6 +503,7 @@ export const binarySearchInteger = (
  * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
  * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
  * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
  * @returns The boundary value that satisfies the condition.
  * @throws {RangeError} If invalid values or conditions are specified.
  */
@@ -274,68 +519,52 @@ export const binarySearchBigint = (
 	predicate: (value: bigint) => boolean,
 	/** @default "check" */
 	safety: "check" | "nocheck" = "check",
-): bigint => {
-	return binarySearch(
+	options?: EvaluationOptions<bigint>,
+): bigint =>
+	binarySearchBigintBracket(alwaysEnd, neverEnd, predicate, safety, options)
+		.always;
+
+/**
+ * Like {@link binarySearchBigint}, but returns the final bracket instead of only the boundary value.
+ * @example
+ * import { binarySearchBigintBracket } from "binary-search-generalized";
+ * const { always, never } = binarySearchBigintBracket(
+ *   100n,
+ *   0n,
+ *   (value) => 2n ** value >= 10n ** 21n
+ * );
+ * // always is 70n and never is 69n
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
+ * @returns The boundary value, the adjacent integer that does not satisfy the condition, and the number of iterations.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchBigintBracket = (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: bigint) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<bigint>,
+): Bracket<bigint> =>
+	_binarySearchBracket(
 		alwaysEnd,
 		neverEnd,
 		predicate,
-		(low, high) => (low + high) / 2n,
+		midpointBigint,
 		1n,
 		safety,
+		options,
 	);
-};
-
-/**
- * @private
- * A DataView for reading the binary representation of floating‑point numbers.
- */
-const view = new DataView(new ArrayBuffer(8));
-/**
- * @private
- * Returns the exponent of a double‑precision floating‑point number.
- *
- * Equivalent to `log2(floor_to_base_2(abs(value)))`. More precise than `floor(log2(abs(value)))`.
- *
- * Edge cases:
- *   - `-1023` for `±0` and subnormal values (value where `|value| < 2^-1022`)
- *   - `1024` for `±Infinity` and `NaN`
- * @param value - The number whose exponent is returned.
- * @returns The unbiased base‑2 exponent of the value.
- */
-const getExponent = (value: number): number => {
-	view.setFloat64(0, value);
-	return ((view.getUint16(0) & 0b0111111111110000) >> 4) - 1023;
-};
-
-/**
- * @private
- * Returns a midpoint heuristic for double‑precision floating‑point numbers using exponents for faster convergence.
- * @param value1 - The first value.
- * @param value2 - The second value.
- * @returns The midpoint of the two values.
- */
-const midpointDouble = (value1: number, value2: number): number => {
-	if ((value1 > 0 && value2 < 0) || (value1 < 0 && value2 > 0)) return 0; // Pick one side for simplicity
-	const sign = value1 > 0 || value2 > 0 ? 1 : -1;
-	const exponent1 = getExponent(value1);
-	const exponent2 = getExponent(value2);
-	if (Math.abs(exponent1 - exponent2) <= 1) return value1 / 2 + value2 / 2;
-	return sign * 2 ** ((exponent1 + exponent2) / 2);
-};
-
-/**
- * @private
- * Determines whether the binary search should continue based on the ulp of current values.
- * @param value1 - The first value.
- * @param value2 - The second value.
- * @returns `true` if the search should continue, `false` otherwise.
- */
-const shouldContinueDouble = (value1: number, value2: number): boolean => {
-	const max = Math.max(Math.abs(value1), Math.abs(value2));
-	const ulp = 2 ** (getExponent(max) - 52) || Number.MIN_VALUE;
-	const diff = Math.abs(value1 - value2);
-	return diff > ulp;
-};
 
 /**
  * Performs a binary search over a range of double‑precision floating‑point values.
@@ -351,8 +580,9 @@ const shouldContinueDouble = (value1: number, value2: number): boolean => {
  * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
  * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
  * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
- * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values. With `"exact"`, bisects the ordered bit patterns of doubles and ends on adjacent doubles.
  * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
  * @returns The boundary value that satisfies the condition.
  * @throws {RangeError} If invalid values or conditions are specified.
  */
@@ -370,33 +600,224 @@ export const binarySearchDouble = (
 	 * The maximum acceptable error margin for the search.
 	 * - a positive number: absolute termination gap; must be representable at the scale of the endpoints.
 	 * - "auto" (default): the limit precision of double‑precision floating‑point values.
+	 * - "exact": bisects the ordered 64‑bit representation of doubles. Crosses zero, accepts infinite endpoints, takes at most 64 steps and ends on adjacent doubles.
 	 * @default "auto"
 	 */
-	epsilon: number | "auto" = "auto",
+	epsilon: number | "auto" | "exact" = "auto",
 	/** @default "check" */
 	safety: "check" | "nocheck" = "check",
-): number => {
+	options?: EvaluationOptions<number>,
+): number =>
+	binarySearchDoubleBracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		epsilon,
+		safety,
+		options,
+	).always;
+
+/**
+ * Like {@link binarySearchDouble}, but returns the final bracket instead of only the boundary value.
+ * @example
+ * import { binarySearchDoubleBracket } from "binary-search-generalized";
+ * const { always, never } = binarySearchDoubleBracket(
+ *   0,
+ *   Math.PI / 2,
+ *   (value) => Math.sin(value) <= 0.5,
+ * );
+ * // always and never are adjacent doubles around π/6, with Math.sin(always) <= 0.5 < Math.sin(never)
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values. With `"exact"`, bisects the ordered bit patterns of doubles and ends on adjacent doubles.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
+ * @returns The boundary value, the closest probed value that does not satisfy the condition, and the number of iterations.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchDoubleBracket = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: number) => boolean,
+	/**
+	 * The maximum acceptable error margin for the search.
+	 * - a positive number: absolute termination gap; must be representable at the scale of the endpoints.
+	 * - "auto" (default): the limit precision of double‑precision floating‑point values.
+	 * - "exact": bisects the ordered 64‑bit representation of doubles. Crosses zero, accepts infinite endpoints, takes at most 64 steps and ends on adjacent doubles.
+	 * @default "auto"
+	 */
+	epsilon: number | "auto" | "exact" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<number>,
+): Bracket<number> => {
+	if (epsilon === "exact") {
+		if (Number.isNaN(alwaysEnd) || Number.isNaN(neverEnd)) {
+			throw new InvalidArgumentError("alwaysEnd and neverEnd must not be NaN", [
+				"alwaysEnd",
+				"neverEnd",
+			]);
+		}
+		return binarySearchGeneralizedBracket(
+			alwaysEnd,
+			neverEnd,
+			predicate,
+			midpointDoubleExact,
+			shouldContinueDoubleExact,
+			safety,
+			options,
+		);
+	}
 	if (epsilon === "auto") {
 		if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
-			throw new RangeError("alwaysEnd and neverEnd must be finite numbers");
+			throw new InvalidArgumentError(
+				"alwaysEnd and neverEnd must be finite numbers",
+				["alwaysEnd", "neverEnd"],
+			);
 		}
-		return binarySearchGeneralized(
+		return binarySearchGeneralizedBracket(
 			alwaysEnd,
 			neverEnd,
 			predicate,
 			midpointDouble,
 			shouldContinueDouble,
 			safety,
+			options,
 		);
 	}
 
-	return binarySearch(
+	return _binarySearchBracket(
 		alwaysEnd,
 		neverEnd,
 		predicate,
 		midpointDouble,
 		epsilon,
 		safety,
+		options,
+	);
+};
+
+/**
+ * Performs a binary search over a range of single‑precision floating‑point (float32) values.
+ *
+ * Only values exactly representable as float32 (`Math.fround(value) === value`) are probed.
+ * @example
+ * import { binarySearchFloat32 } from "binary-search-generalized";
+ * const result = binarySearchFloat32(0, 1, (value) => value * 3 <= 1);
+ * // result is 0.3333333134651184, the float32 value just below Math.fround(1 / 3)
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), the search ends on adjacent float32 values.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be finite float32 values. Use `Math.fround` to round other numbers.
+ */
+export const binarySearchFloat32 = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: number) => boolean,
+	/**
+	 * The maximum acceptable error margin for the search.
+	 * - a positive number: absolute termination gap; the search also ends on adjacent float32 values.
+	 * - "auto" (default): the limit precision of single‑precision floating‑point values.
+	 * @default "auto"
+	 */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<number>,
+): number =>
+	binarySearchFloat32Bracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		epsilon,
+		safety,
+		options,
+	).always;
+
+/**
+ * Like {@link binarySearchFloat32}, but returns the final bracket instead of only the boundary value.
+ * @example
+ * import { binarySearchFloat32Bracket } from "binary-search-generalized";
+ * const { always, never } = binarySearchFloat32Bracket(
+ *   0,
+ *   1,
+ *   (value) => value * 3 <= 1,
+ * );
+ * // always and never are adjacent float32 values around 1/3
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), the search ends on adjacent float32 values.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far.
+ * @returns The boundary value, the closest probed value that does not satisfy the condition, and the number of iterations.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be finite float32 values. Use `Math.fround` to round other numbers.
+ */
+export const binarySearchFloat32Bracket = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: number) => boolean,
+	/**
+	 * The maximum acceptable error margin for the search.
+	 * - a positive number: absolute termination gap; the search also ends on adjacent float32 values.
+	 * - "auto" (default): the limit precision of single‑precision floating‑point values.
+	 * @default "auto"
+	 */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: EvaluationOptions<number>,
+): Bracket<number> => {
+	if (
+		!Number.isFinite(alwaysEnd) ||
+		!Number.isFinite(neverEnd) ||
+		Math.fround(alwaysEnd) !== alwaysEnd ||
+		Math.fround(neverEnd) !== neverEnd
+	) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must be finite float32 values",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+	if (epsilon !== "auto") validateRange(alwaysEnd, neverEnd, epsilon);
+
+	return binarySearchGeneralizedBracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointFloat32,
+		epsilon === "auto"
+			? shouldContinueFloat32
+			: (always, never) =>
+					Math.abs(never - always) > epsilon &&
+					shouldContinueFloat32(always, never),
+		safety,
+		options,
 	);
 };
 
@@ -410,6 +831,7 @@ const _binarySearchArrayInsertion = <T>(
 	sortedArray: ArrayLike<T>,
 	target: T,
 	compareFn?: (a: T, b: T) => number,
+	options?: SearchOptions<number>,
 ): number => {
 	const alwaysEnd = findLast ? 0 : sortedArray.length - 1;
 	const neverEnd = findLast ? sortedArray.length - 1 : 0;
@@ -438,12 +860,20 @@ const _binarySearchArrayInsertion = <T>(
 		}
 	}
 
-	const index = binarySearchInteger(alwaysEnd, neverEnd, predicate, "nocheck");
+	const index = binarySearchInteger(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		"nocheck",
+		options,
+	);
+	// The edge case checks below count as evaluations of the same search
+	const check = createObserver(options)?.count(predicate) ?? predicate;
 
 	// Avoid edge cases (alwaysEnd does not satisfy the condition)
-	if (index === alwaysEnd && !predicate(alwaysEnd)) return notFound;
+	if (index === alwaysEnd && !check(alwaysEnd)) return notFound;
 	// Avoid edge cases (neverEnd satisfies the condition)
-	if (index === nextToNeverEnd && predicate(neverEnd)) return neverEnd;
+	if (index === nextToNeverEnd && check(neverEnd)) return neverEnd;
 
 	return index;
 };
@@ -456,6 +886,7 @@ const _binarySearchArrayFindIndex = (
 	sortedArray: ArrayLike<unknown>,
 	target: unknown,
 	compareFn?: (a: unknown, b: unknown) => number,
+	options?: SearchOptions<number>,
 ) => {
 	if (sortedArray.length === 0) return -1;
 	if (sortedArray.length === 1) {
@@ -469,6 +900,7 @@ const _binarySearchArrayFindIndex = (
 		sortedArray,
 		target,
 		compareFn,
+		options,
 	);
 	if (index === -1 || index === sortedArray.length) return -1;
 
@@ -509,6 +941,7 @@ const _binarySearchArrayFindIndex = (
  * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
  * @param target - The target value to find.
  * @param compareFn - Comparator used to sort the array. Returns a negative number if the first value is less than the second, a positive number if greater, and zero if equal.
+ * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
  * @template T - The type of the elements in the sorted array.
  * @returns The index of the target value, or -1 if not found.
  * @remarks Returns the smallest index if there are duplicates. If you want the largest index, use {@link binarySearchArrayLast}.
@@ -524,12 +957,17 @@ export const binarySearchArray: {
 	 * // index will be -1 (not found)
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks Returns the smallest index if there are duplicates. If you want the largest index, use {@link binarySearchArrayLast}.
 	 * @see {@link binarySearchArrayInsertionLeft} for finding the insertion point.
 	 */
-	(sortedArray: ArrayLike<number>, target: number): number;
+	(
+		sortedArray: ArrayLike<number>,
+		target: number,
+		options?: SearchOptions<number>,
+	): number;
 	/**
 	 * Performs a binary search on a sorted array.
 	 * @example
@@ -538,12 +976,17 @@ export const binarySearchArray: {
 	 * // index will be -1 (not found)
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks Returns the smallest index if there are duplicates. If you want the largest index, use {@link binarySearchArrayLast}.
 	 * @see {@link binarySearchArrayInsertionLeft} for finding the insertion point.
 	 */
-	(sortedArray: ArrayLike<bigint>, target: bigint): number;
+	(
+		sortedArray: ArrayLike<bigint>,
+		target: bigint,
+		options?: SearchOptions<number>,
+	): number;
 	/**
 	 * Performs a binary search on a sorted array.
 	 * @example
@@ -552,12 +995,17 @@ export const binarySearchArray: {
 	 * // index will be 2
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks Returns the smallest index if there are duplicates. If you want the largest index, use {@link binarySearchArrayLast}.
 	 * @see {@link binarySearchArrayInsertionLeft} for finding the insertion point.
 	 */
-	(sortedArray: ArrayLike<string>, target: string): number;
+	(
+		sortedArray: ArrayLike<string>,
+		target: string,
+		options?: SearchOptions<number>,
+	): number;
 	/**
 	 * Performs a binary search on a sorted array.
 	 * @example
@@ -571,6 +1019,7 @@ export const binarySearchArray: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param compareFn - A function that compares two values, which was used to sort the array. Returns a negative number if the first value is less than the second, a positive number if it's greater, and zero if they are equal.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks Returns the smallest index if there are duplicates. If you want the largest index, use {@link binarySearchArrayLast}.
@@ -586,13 +1035,32 @@ export const binarySearchArray: {
 		 * @returns A negative number if `a` comes before `b`, a positive number if `a` comes after `b`, and zero if they are equal.
 		 */
 		compareFn: (a: T, b: T) => number,
+		options?: SearchOptions<number>,
 	): number;
 } = (
 	sortedArray: ArrayLike<unknown>,
 	target: unknown,
-	compareFn?: (a: unknown, b: unknown) => number,
+	compareFnOrOptions?:
+		| ((a: unknown, b: unknown) => number)
+		| SearchOptions<number>,
+	options?: SearchOptions<number>,
 ): number => {
-	return _binarySearchArrayFindIndex(false, sortedArray, target, compareFn);
+	if (typeof compareFnOrOptions === "function") {
+		return _binarySearchArrayFindIndex(
+			false,
+			sortedArray,
+			target,
+			compareFnOrOptions,
+			options,
+		);
+	}
+	return _binarySearchArrayFindIndex(
+		false,
+		sortedArray,
+		target,
+		undefined,
+		compareFnOrOptions,
+	);
 };
 
 /**
@@ -609,6 +1077,7 @@ export const bsFindIndex = binarySearchArray;
  * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
  * @param target - The target value to find.
  * @param compareFn - Comparator used to sort the array. Returns a negative number if the first value is less than the second, a positive number if greater, and zero if equal.
+ * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
  * @template T - The type of the elements in the sorted array.
  * @returns The index of the target value, or -1 if not found.
  * @remarks If you want the smallest index, use {@link binarySearchArray}.
@@ -624,12 +1093,17 @@ export const binarySearchArrayLast: {
 	 * // index will be -1 (not found)
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks If you want the smallest index, use {@link binarySearchArray}.
 	 * @see {@link binarySearchArrayInsertionRight} for finding the insertion point.
 	 */
-	<T extends number>(sortedArray: ArrayLike<T>, target: T): number;
+	<T extends number>(
+		sortedArray: ArrayLike<T>,
+		target: T,
+		options?: SearchOptions<number>,
+	): number;
 	/**
 	 * Performs a binary search on a sorted array. Returns the largest index if there are duplicates.
 	 * @example
@@ -638,12 +1112,17 @@ export const binarySearchArrayLast: {
 	 * // index will be -1 (not found)
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks If you want the smallest index, use {@link binarySearchArray}.
 	 * @see {@link binarySearchArrayInsertionRight} for finding the insertion point.
 	 */
-	<T extends bigint>(sortedArray: ArrayLike<T>, target: T): number;
+	<T extends bigint>(
+		sortedArray: ArrayLike<T>,
+		target: T,
+		options?: SearchOptions<number>,
+	): number;
 	/**
 	 * Performs a binary search on a sorted array. Returns the largest index if there are duplicates.
 	 * @example
@@ -652,12 +1131,17 @@ export const binarySearchArrayLast: {
 	 * // index will be 3
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks If you want the smallest index, use {@link binarySearchArray}.
 	 * @see {@link binarySearchArrayInsertionRight} for finding the insertion point.
 	 */
-	<T extends string>(sortedArray: ArrayLike<T>, target: T): number;
+	<T extends string>(
+		sortedArray: ArrayLike<T>,
+		target: T,
+		options?: SearchOptions<number>,
+	): number;
 	/**
 	 * Performs a binary search on a sorted array. Returns the largest index if there are duplicates.
 	 * @example
@@ -667,6 +1151,7 @@ export const binarySearchArrayLast: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param compareFn - A function that compares two values, which was used to sort the array. Returns a negative number if the first value is less than the second, a positive number if it's greater, and zero if they are equal.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index of the target value, or -1 if not found.
 	 * @remarks If you want the smallest index, use {@link binarySearchArray}.
@@ -682,13 +1167,32 @@ export const binarySearchArrayLast: {
 		 * @returns A negative number if `a` should be ordered before `b`, a positive number if it should be ordered after, and zero if they are equal.
 		 */
 		compareFn: (a: T, b: T) => number,
+		options?: SearchOptions<number>,
 	): number;
 } = (
 	sortedArray: ArrayLike<unknown>,
 	target: unknown,
-	compareFn?: (a: unknown, b: unknown) => number,
+	compareFnOrOptions?:
+		| ((a: unknown, b: unknown) => number)
+		| SearchOptions<number>,
+	options?: SearchOptions<number>,
 ): number => {
-	return _binarySearchArrayFindIndex(true, sortedArray, target, compareFn);
+	if (typeof compareFnOrOptions === "function") {
+		return _binarySearchArrayFindIndex(
+			true,
+			sortedArray,
+			target,
+			compareFnOrOptions,
+			options,
+		);
+	}
+	return _binarySearchArrayFindIndex(
+		true,
+		sortedArray,
+		target,
+		undefined,
+		compareFnOrOptions,
+	);
 };
 
 /**
@@ -716,6 +1220,7 @@ export const bsFindLastIndex = binarySearchArrayLast;
  * @param target - The target value to find.
  * @param order - The order of the sorted array. If omitted, the function infers the order from the first and last elements. Required when the array may contain only one element.
  * @param compareFn - Comparator used to sort the array. Returns a negative number if the first value is less than the second, a positive number if greater, and zero if equal.
+ * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
  * @template T - The type of the elements in the sorted array.
  * @returns The index at which the target value should be inserted.
  * @throws {RangeError} If `sortedArray` has a single element and `order` is not specified.
@@ -739,6 +1244,7 @@ export const binarySearchArrayInsertionLeft: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function infers the order from the first and last elements. Required if the array may contain only one element.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -751,6 +1257,7 @@ export const binarySearchArrayInsertionLeft: {
 		sortedArray: ArrayLike<number>,
 		target: number,
 		order?: "asc" | "desc",
+		options?: SearchOptions<number>,
 	): number;
 	/**
 	 * Performs a binary search on a sorted array and returns the insertion point.
@@ -766,6 +1273,7 @@ export const binarySearchArrayInsertionLeft: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function infers the order from the first and last elements. Required if the array may contain only one element.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -778,6 +1286,7 @@ export const binarySearchArrayInsertionLeft: {
 		sortedArray: ArrayLike<bigint>,
 		target: bigint,
 		order?: "asc" | "desc",
+		options?: SearchOptions<number>,
 	): number;
 	/**
 	 * Performs a binary search on a sorted array and returns the insertion point.
@@ -793,6 +1302,7 @@ export const binarySearchArrayInsertionLeft: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function infers the order from the first and last elements. Required if the array may contain only one element.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -805,6 +1315,7 @@ export const binarySearchArrayInsertionLeft: {
 		sortedArray: ArrayLike<string>,
 		target: string,
 		order?: "asc" | "desc",
+		options?: SearchOptions<number>,
 	): number;
 	/**
 	 * Performs a binary search on a sorted array and returns the insertion point.
@@ -821,6 +1332,7 @@ export const binarySearchArrayInsertionLeft: {
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function will determine the order based on the first two elements. Required if the array may contain only one element.
 	 * @param compareFn - A function that compares two values, which was used to sort the array. Returns a negative number if the first value is less than the second, a positive number if it's greater, and zero if they are equal.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -833,11 +1345,13 @@ export const binarySearchArrayInsertionLeft: {
 		sortedArray: ArrayLike<T>,
 		target: T,
 		compareFn: (a: T, b: T) => number,
+		options?: SearchOptions<number>,
 	): number;
 } = (
 	sortedArray: ArrayLike<unknown>,
 	target: unknown,
 	order?: "asc" | "desc" | ((a: unknown, b: unknown) => number),
+	options?: SearchOptions<number>,
 ): number => {
 	if (sortedArray.length === 0) return 0;
 	if (sortedArray.length === 1) {
@@ -853,13 +1367,17 @@ export const binarySearchArrayInsertionLeft: {
 			// biome-ignore lint/style/noNonNullAssertion: sortedArray has at least one element
 			return (target as number | bigint | string) < sortedArray[0]! ? 1 : 0;
 		}
-		throw new RangeError("order must be specified for single-element arrays");
+		throw new InvalidArgumentError(
+			"order must be specified for single-element arrays",
+			["order"],
+		);
 	}
 	return _binarySearchArrayInsertion(
 		false,
 		sortedArray,
 		target,
 		typeof order === "function" ? order : undefined,
+		options,
 	);
 };
 
@@ -893,6 +1411,7 @@ export const bsLowerBound = binarySearchArrayInsertionLeft;
  * @param target - The target value to find.
  * @param order - The order of the sorted array. If omitted, the function infers the order from the first and last elements. Required if the array may contain only one element.
  * @param compareFn - Comparator used to sort the array. Returns a negative number if the first value is less than the second, a positive number if greater, and zero if equal.
+ * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
  * @template T - The type of the elements in the sorted array.
  * @returns The index at which the target value should be inserted.
  * @throws {RangeError} If `sortedArray` has a single element and `order` is not specified.
@@ -916,6 +1435,7 @@ export const binarySearchArrayInsertionRight: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function infers the order from the first and last elements. Required if the array may contain only one element.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -928,6 +1448,7 @@ export const binarySearchArrayInsertionRight: {
 		sortedArray: ArrayLike<number>,
 		target: number,
 		order?: "asc" | "desc",
+		options?: SearchOptions<number>,
 	): number;
 	/**
 	 * Performs a binary search on a sorted array and returns the insertion point.
@@ -943,6 +1464,7 @@ export const binarySearchArrayInsertionRight: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function infers the order from the first and last elements. Required if the array may contain only one element.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -955,6 +1477,7 @@ export const binarySearchArrayInsertionRight: {
 		sortedArray: ArrayLike<bigint>,
 		target: bigint,
 		order?: "asc" | "desc",
+		options?: SearchOptions<number>,
 	): number;
 	/**
 	 * Performs a binary search on a sorted array and returns the insertion point.
@@ -970,6 +1493,7 @@ export const binarySearchArrayInsertionRight: {
 	 * @param sortedArray - The sorted array to search. It can be an array of `number`, `bigint`, `string`, or any type that can be compared using `compareFn`.
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function infers the order from the first and last elements. Required if the array may contain only one element.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -982,6 +1506,7 @@ export const binarySearchArrayInsertionRight: {
 		sortedArray: ArrayLike<string>,
 		target: string,
 		order?: "asc" | "desc",
+		options?: SearchOptions<number>,
 	): number;
 	/**
 	 * Performs a binary search on a sorted array and returns the insertion point.
@@ -998,6 +1523,7 @@ export const binarySearchArrayInsertionRight: {
 	 * @param target - The target value to find.
 	 * @param order - The order of the sorted array. If not specified, the function will determine the order based on the first two elements. Required if the array may contain only one element.
 	 * @param compareFn - A function that compares two values, which was used to sort the array. Returns a negative number if the first value is less than the second, a positive number if it's greater, and zero if they are equal.
+	 * @param options - Instrumentation over the searched indices: an `onStep` hook and a `trace` to fill in (see {@link createSearchTrace}).
 	 * @template T - The type of the elements in the sorted array.
 	 * @returns The index at which the target value should be inserted.
 	 * @throws {RangeError} If the sortedArray has only one element and order is not specified.
@@ -1010,11 +1536,13 @@ export const binarySearchArrayInsertionRight: {
 		sortedArray: ArrayLike<T>,
 		target: T,
 		compareFn: (a: T, b: T) => number,
+		options?: SearchOptions<number>,
 	): number;
 } = (
 	sortedArray: ArrayLike<unknown>,
 	target: unknown,
 	order?: "asc" | "desc" | ((a: unknown, b: unknown) => number),
+	options?: SearchOptions<number>,
 ): number => {
 	if (sortedArray.length === 0) return 0;
 	if (sortedArray.length === 1) {
@@ -1030,7 +1558,10 @@ export const binarySearchArrayInsertionRight: {
 			// biome-ignore lint/style/noNonNullAssertion: sortedArray has at least one element
 			return (target as number | bigint | string) <= sortedArray[0]! ? 1 : 0;
 		}
-		throw new RangeError("order must be specified for single-element arrays");
+		throw new InvalidArgumentError(
+			"order must be specified for single-element arrays",
+			["order"],
+		);
 	}
 	return (
 		_binarySearchArrayInsertion(
@@ -1038,6 +1569,7 @@ export const binarySearchArrayInsertionRight: {
 			sortedArray,
 			target,
 			typeof order === "function" ? order : undefined,
+			options,
 		) + 1
 	);
 };
@@ -1052,6 +1584,64 @@ export const bsInsertionRight = binarySearchArrayInsertionRight;
  */
 export const bsUpperBound = binarySearchArrayInsertionRight;
 
+/**
+ * @private
+ * The arguments of {@link binarySearchGeneralized} after the predicate: a `midpoint` and `shouldContinue` pair, or a {@link SearchDomain}.
+ */
+type GeneralizedArguments<T> =
+	| [
+			midpoint: (always: T, never: T) => T,
+			shouldContinue: (always: T, never: T) => boolean,
+			safety?: "check" | "nocheck" | "verify" | undefined,
+			options?: EvaluationOptions<T> | undefined,
+	  ]
+	| [
+			domain: SearchDomain<T>,
+			safety?: "check" | "nocheck" | "verify" | undefined,
+			options?: EvaluationOptions<T> | undefined,
+	  ];
+
+/**
+ * @private
+ * Resolves the arguments of {@link binarySearchGeneralized} to a `midpoint` and `shouldContinue` pair.
+ * A domain validates the endpoints, and in the `"verify"` safety mode, each midpoint is checked to lie strictly between the bounds.
+ */
+const _resolveGeneralizedArguments = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	args: GeneralizedArguments<T>,
+): [
+	midpoint: (always: T, never: T) => T,
+	shouldContinue: (always: T, never: T) => boolean,
+	safety: "check" | "nocheck" | "verify",
+	options: EvaluationOptions<T> | undefined,
+] => {
+	if (typeof args[0] === "function") {
+		const [midpoint, shouldContinue, safety = "check", options] =
+			args as Extract<
+				GeneralizedArguments<T>,
+				[unknown, unknown, ...unknown[]]
+			>;
+		return [midpoint, shouldContinue, safety, options];
+	}
+	const [domain, safety = "check", options] = args as Extract<
+		GeneralizedArguments<T>,
+		[SearchDomain<T>, ...unknown[]]
+	>;
+	domain.validate?.(alwaysEnd, neverEnd);
+	if (safety !== "verify") {
+		return [domain.midpoint, domain.shouldContinue, safety, options];
+	}
+	const midpoint = (always: T, never: T): T => {
+		const middle = domain.midpoint(always, never);
+		if (!(domain.compare(always, middle) * domain.compare(middle, never) > 0)) {
+			throw new NonConvergentMidpointError(middle, always, never);
+		}
+		return middle;
+	};
+	return [midpoint, domain.shouldContinue, safety, options];
+};
+
 /**
  * Performs a generalized binary search over a range of non‑primitive numeric‑like values.
  * @example
@@ -1071,57 +1661,285 @@ export const bsUpperBound = binarySearchArrayInsertionRight;
  * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
  * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
  * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
- * @param midpoint - A function that determines the midpoint between two values.
+ * @param midpoint - A function that determines the midpoint between two values, or a {@link SearchDomain} in place of `midpoint` and `shouldContinue`.
  * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
- * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` additionally checks the predicate at `options.verifySamples` extra points between the evaluated points (none by default, and none if the search stops early on the budget) and throws a {@link MonotonicityError} on a contradiction. With a domain, `"verify"` also checks that each midpoint lies strictly between the bounds.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far. Steps report the "always" bound as `low` and the "never" bound as `high`.
  * @returns The boundary value that satisfies the condition.
  * @throws {RangeError} If invalid values or conditions are specified.
+ * @throws {MonotonicityError} In the `"verify"` safety mode, if two evaluated values contradict the monotonicity of the predicate.
  * @remarks Consider using {@link binarySearch} for primitive numeric (`number` and `bigint`) values.
+ * @function
  */
-export const binarySearchGeneralized = <T>(
-	alwaysEnd: T,
-	neverEnd: T,
+export const binarySearchGeneralized: {
 	/**
-	 * A function that checks if a value satisfies the condition.
-	 * @param value - The value to check.
-	 * @returns `true` if the value satisfies the condition, `false` otherwise.
-	 * @remarks This function should be monotonic within the range.
+	 * Performs a generalized binary search over a range of non‑primitive numeric‑like values.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+	 * @param midpoint - A function that determines the midpoint between two values.
+	 * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+	 * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` additionally samples extra points and throws a `MonotonicityError` on a contradiction.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
+	 * @returns The boundary value that satisfies the condition.
+	 * @throws {RangeError} If invalid values or conditions are specified.
+	 */
+	<T>(
+		alwaysEnd: T,
+		neverEnd: T,
+		/**
+		 * A function that checks if a value satisfies the condition.
+		 * @param value - The value to check.
+		 * @returns `true` if the value satisfies the condition, `false` otherwise.
+		 * @remarks This function should be monotonic within the range.
+		 */
+		predicate: (value: T) => boolean,
+		/**
+		 * A function that determines the midpoint between two values.
+		 * @param always - The value that always satisfies the condition.
+		 * @param never - The value that never satisfies the condition.
+		 * @returns The midpoint between the two values.
+		 */
+		midpoint: (always: T, never: T) => T,
+		/**
+		 * A function that determines whether to continue the search based on the difference between `never` and `always`.
+		 * @param always - The value that always satisfies the condition.
+		 * @param never - The value that never satisfies the condition.
+		 * @returns `true` if the search should continue, `false` otherwise.
+		 */
+		shouldContinue: (always: T, never: T) => boolean,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "verify",
+		options?: EvaluationOptions<T>,
+	): T;
+	/**
+	 * Performs a generalized binary search over the values of a domain.
+	 * @example
+	 * import { binarySearchGeneralized, stepDomain } from "binary-search-generalized";
+	 * const result = binarySearchGeneralized(0, 100, (value) => value ** 2 <= 180, stepDomain(2));
+	 * // result is 12
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+	 * @param domain - The midpoint, termination rule and order of the values, such as {@link integerDomain}. Its `validate` is called first.
+	 * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` additionally checks that each midpoint lies strictly between the bounds, samples extra points and throws a `MonotonicityError` on a contradiction.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
+	 * @returns The boundary value that satisfies the condition.
+	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
 	 */
+	<T>(
+		alwaysEnd: T,
+		neverEnd: T,
+		/**
+		 * A function that checks if a value satisfies the condition.
+		 * @param value - The value to check.
+		 * @returns `true` if the value satisfies the condition, `false` otherwise.
+		 * @remarks This function should be monotonic within the range.
+		 */
+		predicate: (value: T) => boolean,
+		domain: SearchDomain<T>,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "verify",
+		options?: EvaluationOptions<T>,
+	): T;
+} = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
 	predicate: (value: T) => boolean,
+	...args: GeneralizedArguments<T>
+): T =>
+	_binarySearchGeneralizedBracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		..._resolveGeneralizedArguments(alwaysEnd, neverEnd, args),
+	).always;
+
+/**
+ * Like {@link binarySearchGeneralized}, but returns the final bracket instead of only the boundary value.
+ * @example
+ * import BigNumber from "bignumber.js";
+ * import { binarySearchGeneralizedBracket } from "binary-search-generalized";
+ * const { always, never } = binarySearchGeneralizedBracket(
+ *   new BigNumber('0'),
+ *   new BigNumber('1000000000000000'),
+ *   (value) => value.isLessThan('100000000'),
+ *   (always, never) =>
+ *     always.plus(never).dividedBy(2).integerValue(BigNumber.ROUND_FLOOR),
+ *   (always, never) => never.minus(always).isGreaterThan(1),
+ * );
+ * // always is BigNumber('99999999'), never is BigNumber('100000000')
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param midpoint - A function that determines the midpoint between two values, or a {@link SearchDomain} in place of `midpoint` and `shouldContinue`.
+ * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` additionally checks the predicate at `options.verifySamples` extra points between the evaluated points (none by default, and none if the search stops early on the budget) and throws a {@link MonotonicityError} on a contradiction. With a domain, `"verify"` also checks that each midpoint lies strictly between the bounds.
+ * @param options - Instrumentation (`onStep`, `trace`; see {@link createSearchTrace}), memoization (`cache`) and an evaluation budget (`maxEvaluations`, `deadline`). When the budget runs out, the search stops early with the bracket found so far. Steps report the "always" bound as `low` and the "never" bound as `high`.
+ * @returns The boundary value on the "always" side, the last probed value on the "never" side, and the number of iterations.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @throws {MonotonicityError} In the `"verify"` safety mode, if two evaluated values contradict the monotonicity of the predicate.
+ * @function
+ */
+export const binarySearchGeneralizedBracket: {
 	/**
-	 * A function that determines the midpoint between two values.
-	 * @param always - The value that always satisfies the condition.
-	 * @param never - The value that never satisfies the condition.
-	 * @returns The midpoint between the two values.
+	 * Like `binarySearchGeneralized`, but returns the final bracket instead of only the boundary value.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+	 * @param midpoint - A function that determines the midpoint between two values.
+	 * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+	 * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` additionally samples extra points and throws a `MonotonicityError` on a contradiction.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
+	 * @returns The boundary value on the "always" side, the last probed value on the "never" side, and the number of iterations.
+	 * @throws {RangeError} If invalid values or conditions are specified.
 	 */
-	midpoint: (always: T, never: T) => T,
+	<T>(
+		alwaysEnd: T,
+		neverEnd: T,
+		/**
+		 * A function that checks if a value satisfies the condition.
+		 * @param value - The value to check.
+		 * @returns `true` if the value satisfies the condition, `false` otherwise.
+		 * @remarks This function should be monotonic within the range.
+		 */
+		predicate: (value: T) => boolean,
+		/**
+		 * A function that determines the midpoint between two values.
+		 * @param always - The value that always satisfies the condition.
+		 * @param never - The value that never satisfies the condition.
+		 * @returns The midpoint between the two values.
+		 */
+		midpoint: (always: T, never: T) => T,
+		/**
+		 * A function that determines whether to continue the search based on the difference between `never` and `always`.
+		 * @param always - The value that always satisfies the condition.
+		 * @param never - The value that never satisfies the condition.
+		 * @returns `true` if the search should continue, `false` otherwise.
+		 */
+		shouldContinue: (always: T, never: T) => boolean,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "verify",
+		options?: EvaluationOptions<T>,
+	): Bracket<T>;
 	/**
-	 * A function that determines whether to continue the search based on the difference between `never` and `always`.
-	 * @param always - The value that always satisfies the condition.
-	 * @param never - The value that never satisfies the condition.
-	 * @returns `true` if the search should continue, `false` otherwise.
+	 * Like `binarySearchGeneralized` with a domain, but returns the final bracket instead of only the boundary value.
+	 * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+	 * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+	 * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+	 * @param domain - The midpoint, termination rule and order of the values, such as {@link integerDomain}. Its `validate` is called first.
+	 * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` additionally checks that each midpoint lies strictly between the bounds, samples extra points and throws a `MonotonicityError` on a contradiction.
+	 * @param options - Instrumentation, memoization and an evaluation budget.
+	 * @returns The boundary value on the "always" side, the last probed value on the "never" side, and the number of iterations.
+	 * @throws {RangeError | TypeError} If invalid values or conditions are specified.
 	 */
+	<T>(
+		alwaysEnd: T,
+		neverEnd: T,
+		/**
+		 * A function that checks if a value satisfies the condition.
+		 * @param value - The value to check.
+		 * @returns `true` if the value satisfies the condition, `false` otherwise.
+		 * @remarks This function should be monotonic within the range.
+		 */
+		predicate: (value: T) => boolean,
+		domain: SearchDomain<T>,
+		/** @default "check" */
+		safety?: "check" | "nocheck" | "verify",
+		options?: EvaluationOptions<T>,
+	): Bracket<T>;
+} = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: (value: T) => boolean,
+	...args: GeneralizedArguments<T>
+): Bracket<T> =>
+	_binarySearchGeneralizedBracket(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		..._resolveGeneralizedArguments(alwaysEnd, neverEnd, args),
+	);
+
+/**
+ * @private
+ * Implementation of {@link binarySearchGeneralized} and {@link binarySearchGeneralizedBracket}.
+ */
+const _binarySearchGeneralizedBracket = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: (value: T) => boolean,
+	midpoint: (always: T, never: T) => T,
 	shouldContinue: (always: T, never: T) => boolean,
-	/** @default "check" */
-	safety: "check" | "nocheck" = "check",
-): T => {
-	if (safety === "check") {
+	safety: "check" | "nocheck" | "verify",
+	options: EvaluationOptions<T> | undefined,
+): Bracket<T> => {
+	const observer = createObserver(options);
+	if (observer !== undefined) predicate = observer.count(predicate);
+	const evaluator = createEvaluator(predicate, options);
+	if (evaluator !== undefined) predicate = evaluator.predicate;
+	const samples = options?.verifySamples ?? 0;
+	if (safety === "verify") validateSamples(samples);
+
+	if (safety !== "nocheck") {
 		if (!predicate(alwaysEnd)) {
-			throw new RangeError("alwaysEnd must satisfy the condition");
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
 		}
 		if (predicate(neverEnd)) {
-			throw new RangeError("neverEnd must not satisfy the condition");
+			throw new PreconditionError("neverEnd", neverEnd);
 		}
 	}
 
 	let always = alwaysEnd;
 	let never = neverEnd;
+	let iterations = 0;
+
+	if (
+		safety === "verify" ||
+		observer !== undefined ||
+		evaluator !== undefined
+	) {
+		let stopped: StopReason | undefined;
+		// The evaluated values on each side, from the ends toward the boundary
+		const alwaysChain = [alwaysEnd];
+		const neverChain = [neverEnd];
+		observer?.enter(always, never);
+		while (shouldContinue(always, never)) {
+			const middle = midpoint(always, never);
+			stopped = evaluator?.exhausted(middle);
+			if (stopped !== undefined) break;
+			const result = predicate(middle);
+			observer?.probe(always, never, middle, result);
+			if (result) always = middle;
+			else never = middle;
+			observer?.enter(always, never);
+			iterations++;
+			if (safety === "verify") (result ? alwaysChain : neverChain).push(middle);
+		}
+
+		// Sampling would evaluate past the budget, so it is skipped when the search stopped early
+		if (safety === "verify" && stopped === undefined) {
+			sampleChains(
+				alwaysChain,
+				neverChain,
+				predicate,
+				midpoint,
+				shouldContinue,
+				samples,
+			);
+		}
+
+		return stopped === undefined
+			? { always, never, iterations }
+			: { always, never, iterations, stopped };
+	}
 
 	while (shouldContinue(always, never)) {
 		const middle = midpoint(always, never);
 		if (predicate(middle)) always = middle;
 		else never = middle;
+		iterations++;
 	}
 
-	return always;
+	return { always, never, iterations };
 };
@@ -0,0 +1,332 @@
+import type { SearchDomain } from "./domain.js";
+import {
+	EpsilonNotRepresentableError,
+	InvalidArgumentError,
+	InvalidArgumentTypeError,
+	NonConvergentMidpointError,
+	PreconditionError,
+} from "./errors.js";
+
+/**
+ * @private
+ * Validates the endpoints and epsilon shared by every primitive numeric binary search.
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param epsilon - The maximum acceptable error margin for the search.
+ * @throws {InvalidArgumentError | InvalidArgumentTypeError | EpsilonNotRepresentableError} If invalid values are specified.
+ */
+export const validateRange = <T extends number | bigint>(
+	alwaysEnd: T,
+	neverEnd: T,
+	epsilon: T,
+): void => {
+	const alwaysIsLower = alwaysEnd < neverEnd;
+	const low = alwaysIsLower ? alwaysEnd : neverEnd;
+	const high = alwaysIsLower ? neverEnd : alwaysEnd;
+
+	if (
+		typeof alwaysEnd !== typeof neverEnd ||
+		typeof epsilon !== typeof alwaysEnd
+	) {
+		throw new InvalidArgumentTypeError(
+			"alwaysEnd, neverEnd, and epsilon must be of the same type",
+			["alwaysEnd", "neverEnd", "epsilon"],
+		);
+	}
+
+	if (epsilon <= 0) {
+		throw new InvalidArgumentError("epsilon must be positive", ["epsilon"]);
+	}
+	if (high - low < epsilon) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must be different within the epsilon range",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+	if (typeof epsilon === "number") {
+		if (
+			!Number.isFinite(epsilon) ||
+			!Number.isFinite(alwaysEnd) ||
+			!Number.isFinite(neverEnd)
+		) {
+			throw new InvalidArgumentError(
+				"alwaysEnd, neverEnd, and epsilon must be finite numbers",
+				["alwaysEnd", "neverEnd", "epsilon"],
+			);
+		}
+		if (high - epsilon === high || (low as number) + epsilon === low) {
+			throw new EpsilonNotRepresentableError(epsilon, alwaysEnd, neverEnd);
+		}
+	}
+};
+
+/**
+ * @private
+ * Throws if the midpoint does not lie strictly inside `(low, high)`.
+ * @param iteration - The 1‑based step of the search, if any.
+ */
+export const validateMidpoint = <T extends number | bigint>(
+	middle: T,
+	low: T,
+	high: T,
+	iteration?: number,
+): void => {
+	if (Number.isNaN(middle) || middle >= high || middle <= low) {
+		throw new NonConvergentMidpointError(middle, low, high, iteration);
+	}
+};
+
+/**
+ * @private
+ * Validates that both endpoints of a safe-integer search are safe integers.
+ */
+export const validateSafeIntegers = (alwaysEnd: number, neverEnd: number) => {
+	if (
+		Number.isSafeInteger(alwaysEnd) === false ||
+		Number.isSafeInteger(neverEnd) === false
+	) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must be safe integers",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+};
+
+/**
+ * @private
+ * Midpoint of two safe integers, rounded toward negative infinity.
+ */
+export const midpointInteger = (low: number, high: number): number =>
+	Math.floor(low / 2 + high / 2);
+
+/**
+ * @private
+ * Midpoint of two bigints, rounded toward zero.
+ */
+export const midpointBigint = (low: bigint, high: bigint): bigint =>
+	(low + high) / 2n;
+
+/**
+ * @private
+ * A DataView for reading the binary representation of floating‑point numbers.
+ */
+const view = new DataView(new ArrayBuffer(8));
+/**
+ * @private
+ * Returns the exponent of a double‑precision floating‑point number.
+ *
+ * Equivalent to `log2(floor_to_base_2(abs(value)))`. More precise than `floor(log2(abs(value)))`.
+ *
+ * Edge cases:
+ *   - `-1023` for `±0` and subnormal values (value where `|value| < 2^-1022`)
+ *   - `1024` for `±Infinity` and `NaN`
+ * @param value - The number whose exponent is returned.
+ * @returns The unbiased base‑2 exponent of the value.
+ */
+export const getExponent = (value: number): number => {
+	view.setFloat64(0, value);
+	return ((view.getUint16(0) & 0b0111111111110000) >> 4) - 1023;
+};
+
+/**
+ * @private
+ * Returns the position of a double‑precision floating‑point number in the ordered sequence of all doubles.
+ *
+ * Adjacent doubles have adjacent positions, `±0` maps to `0n`, and negative values map to negative positions.
+ * @param value - A number that is not `NaN`.
+ * @returns The signed position of the value.
+ */
+export const toOrderedBits = (value: number): bigint => {
+	view.setFloat64(0, value);
+	const magnitude = view.getBigUint64(0) & 0x7fff_ffff_ffff_ffffn;
+	return value < 0 ? -magnitude : magnitude;
+};
+
+/**
+ * @private
+ * Inverse of {@link toOrderedBits}. `0n` maps to `+0`.
+ * @param position - The signed position of a double.
+ * @returns The double at the position.
+ */
+export const fromOrderedBits = (position: bigint): number => {
+	view.setBigUint64(0, position < 0n ? -position | (1n << 63n) : position);
+	return view.getFloat64(0);
+};
+
+/**
+ * @private
+ * Returns a midpoint heuristic for double‑precision floating‑point numbers using exponents for faster convergence.
+ * @param value1 - The first value.
+ * @param value2 - The second value.
+ * @returns The midpoint of the two values.
+ */
+export const midpointDouble = (value1: number, value2: number): number => {
+	if ((value1 > 0 && value2 < 0) || (value1 < 0 && value2 > 0)) return 0; // Pick one side for simplicity
+	const sign = value1 > 0 || value2 > 0 ? 1 : -1;
+	const exponent1 = getExponent(value1);
+	const exponent2 = getExponent(value2);
+	if (Math.abs(exponent1 - exponent2) <= 1) return value1 / 2 + value2 / 2;
+	return sign * 2 ** ((exponent1 + exponent2) / 2);
+};
+
+/**
+ * @private
+ * Determines whether the binary search should continue based on the ulp of current values.
+ * @param value1 - The first value.
+ * @param value2 - The second value.
+ * @returns `true` if the search should continue, `false` otherwise.
+ */
+export const shouldContinueDouble = (
+	value1: number,
+	value2: number,
+): boolean => {
+	const max = Math.max(Math.abs(value1), Math.abs(value2));
+	const ulp = 2 ** (getExponent(max) - 52) || Number.MIN_VALUE;
+	const diff = Math.abs(value1 - value2);
+	return diff > ulp;
+};
+
+/**
+ * @private
+ * Returns the double halfway between two doubles in their ordered sequence, so that the search crosses zero and accepts infinities.
+ * @param value1 - The first value.
+ * @param value2 - The second value.
+ * @returns A double strictly between the two unless they are adjacent.
+ */
+export const midpointDoubleExact = (value1: number, value2: number): number =>
+	fromOrderedBits((toOrderedBits(value1) + toOrderedBits(value2)) >> 1n);
+
+/**
+ * @private
+ * Determines whether the exact double search should continue: `false` once the values are adjacent doubles.
+ * @param value1 - The first value.
+ * @param value2 - The second value.
+ * @returns `true` if the search should continue, `false` otherwise.
+ */
+export const shouldContinueDoubleExact = (
+	value1: number,
+	value2: number,
+): boolean => {
+	const gap = toOrderedBits(value1) - toOrderedBits(value2);
+	return gap > 1n || gap < -1n;
+};
+
+/**
+ * @private
+ * Returns the position of a single‑precision floating‑point number in the ordered sequence of all float32 values.
+ *
+ * Adjacent float32 values have adjacent positions, `±0` maps to `0`, and negative values map to negative positions.
+ * @param value - A number exactly representable as a float32 (`Math.fround(value) === value`).
+ * @returns The signed position of the value.
+ */
+const toOrderedBits32 = (value: number): number => {
+	view.setFloat32(0, value);
+	const magnitude = view.getUint32(0) & 0x7fff_ffff;
+	return value < 0 ? -magnitude : magnitude;
+};
+
+/**
+ * @private
+ * Inverse of {@link toOrderedBits32}. `0` maps to `+0`.
+ */
+const fromOrderedBits32 = (position: number): number => {
+	view.setUint32(0, position < 0 ? (-position | 0x8000_0000) >>> 0 : position);
+	return view.getFloat32(0);
+};
+
+/**
+ * @private
+ * Returns the float32 value halfway between two float32 values in their ordered sequence.
+ *
+ * Like {@link midpointDouble}, it averages exponents for values far apart, and it also crosses zero.
+ * @param value1 - The first value.
+ * @param value2 - The second value.
+ * @returns A float32 value strictly between the two unless they are adjacent.
+ */
+export const midpointFloat32 = (value1: number, value2: number): number =>
+	fromOrderedBits32(
+		Math.floor((toOrderedBits32(value1) + toOrderedBits32(value2)) / 2),
+	);
+
+/**
+ * @private
+ * Determines whether the float32 search should continue: `false` once the values are adjacent float32 values.
+ * @param value1 - The first value.
+ * @param value2 - The second value.
+ * @returns `true` if the search should continue, `false` otherwise.
+ */
+export const shouldContinueFloat32 = (
+	value1: number,
+	value2: number,
+): boolean => Math.abs(toOrderedBits32(value1) - toOrderedBits32(value2)) > 1;
+
+/**
+ * @private
+ * Bisects a range, skipping segments whose ends have equal results, and returns the adjacent pairs of values
+ * (within the precision of the domain) with different results, in order from `from`.
+ * @param check - Called with each probe and the ends of its segment before the segment is split.
+ */
+export const splitSegments = <T, V>(
+	from: T,
+	to: T,
+	fn: (value: T) => V,
+	domain: SearchDomain<T>,
+	equals: (a: V, b: V) => boolean,
+	check?: (
+		low: T,
+		lowResult: V,
+		middle: T,
+		middleResult: V,
+		high: T,
+		highResult: V,
+	) => void,
+): [last: T, first: T, before: V, after: V][] => {
+	const changes: [T, T, V, V][] = [];
+	const split = (low: T, lowResult: V, high: T, highResult: V): void => {
+		if (equals(lowResult, highResult)) return;
+		if (!domain.shouldContinue(low, high)) {
+			changes.push([low, high, lowResult, highResult]);
+			return;
+		}
+		const middle = domain.midpoint(low, high);
+		const middleResult = fn(middle);
+		check?.(low, lowResult, middle, middleResult, high, highResult);
+		split(low, lowResult, middle, middleResult);
+		split(middle, middleResult, high, highResult);
+	};
+	split(from, fn(from), to, fn(to));
+	return changes;
+};
+
+/**
+ * @private
+ * Evaluates the predicate, checking the abort signal before and after the evaluation.
+ */
+export const evaluateAsync = async <T>(
+	predicate: (value: T) => boolean | PromiseLike<boolean>,
+	value: T,
+	signal: AbortSignal | undefined,
+): Promise<boolean> => {
+	signal?.throwIfAborted();
+	const result = await predicate(value);
+	signal?.throwIfAborted();
+	return result;
+};
+
+/**
+ * @private
+ * Validates the endpoint precondition with an asynchronous predicate.
+ */
+export const checkEndsAsync = async <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: (value: T) => boolean | PromiseLike<boolean>,
+	signal: AbortSignal | undefined,
+): Promise<void> => {
+	if (!(await evaluateAsync(predicate, alwaysEnd, signal))) {
+		throw new PreconditionError("alwaysEnd", alwaysEnd);
+	}
+	if (await evaluateAsync(predicate, neverEnd, signal)) {
+		throw new PreconditionError("neverEnd", neverEnd);
+	}
+};
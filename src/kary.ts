@@ -0,0 +1,307 @@
+import type { AsyncPredicate } from "./async.js";
+import { InvalidArgumentError, PreconditionError } from "./errors.js";
+import {
+	evaluateAsync,
+	midpointBigint,
+	midpointDouble,
+	midpointInteger,
+	shouldContinueDouble,
+	validateRange,
+	validateSafeIntegers,
+} from "./internal.js";
+
+/**
+ * Options of the k‑ary searches.
+ */
+export type KaryOptions = {
+	/**
+	 * The number of segments the current interval is split into per round (`arity - 1` probes per round).
+	 * @default 4
+	 */
+	readonly arity?: number;
+	/**
+	 * The maximum number of predicate evaluations running at the same time.
+	 * @default arity - 1
+	 */
+	readonly concurrency?: number;
+	/**
+	 * Controls runtime checks. Use `"nocheck"` to skip precondition check.
+	 * @default "check"
+	 */
+	readonly safety?: "check" | "nocheck";
+	/** An `AbortSignal` that cancels the search between predicate evaluations. */
+	readonly signal?: AbortSignal;
+};
+
+/**
+ * @private
+ * Splits the interval between `always` and `never` into up to `segments` parts with the midpoint function.
+ * @returns The interior probes ordered from the `always` side to the `never` side.
+ * @remarks Splitting stops early in sub‑intervals where `shouldContinue` returns false, so fewer probes may be returned.
+ */
+const split = <T>(
+	always: T,
+	never: T,
+	segments: number,
+	midpoint: (always: T, never: T) => T,
+	shouldContinue: (always: T, never: T) => boolean,
+): T[] => {
+	if (segments < 2 || !shouldContinue(always, never)) return [];
+	const middle = midpoint(always, never);
+	const half = Math.floor(segments / 2);
+	return [
+		...split(always, middle, half, midpoint, shouldContinue),
+		middle,
+		...split(middle, never, segments - half, midpoint, shouldContinue),
+	];
+};
+
+/**
+ * @private
+ * Maps values with an asynchronous function, running at most `concurrency` calls at the same time.
+ */
+const mapConcurrently = async <T, U>(
+	values: readonly T[],
+	concurrency: number,
+	fn: (value: T) => Promise<U>,
+): Promise<U[]> => {
+	const results = new Array<U>(values.length);
+	let next = 0;
+	let failed = false;
+	const worker = async () => {
+		while (!failed && next < values.length) {
+			const index = next++;
+			try {
+				// biome-ignore lint/style/noNonNullAssertion: index is always valid
+				results[index] = await fn(values[index]!);
+			} catch (error) {
+				failed = true;
+				throw error;
+			}
+		}
+	};
+	await Promise.all(
+		Array.from({ length: Math.min(concurrency, values.length) }, worker),
+	);
+	return results;
+};
+
+/**
+ * Performs a k‑ary search that evaluates several probes of each round concurrently.
+ *
+ * Each round splits the current interval between `always` and `never` into `arity` segments using `midpoint`,
+ * evaluates the `arity - 1` interior probes concurrently, and narrows to the segment that contains the boundary.
+ * @example
+ * import { karySearchGeneralized } from "binary-search-generalized/kary";
+ * const result = await karySearchGeneralized(
+ *   0n,
+ *   10n ** 9n,
+ *   async (value) => (await simulate(value)).ok,
+ *   (always, never) => (always + never) / 2n,
+ *   (always, never) => never - always > 1n,
+ *   { arity: 8, concurrency: 4 },
+ * );
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param midpoint - A function that determines the midpoint between two values.
+ * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+ * @param options - Arity, concurrency limit, safety mode and abort signal.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified. Rejects with `signal.reason` when aborted.
+ * @remarks Probes are placed by recursively applying `midpoint`, so segments are equal only when `arity` is a power of two.
+ */
+export const karySearchGeneralized = async <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: AsyncPredicate<T>,
+	/**
+	 * A function that determines the midpoint between two values.
+	 * @param always - The value closer to the "always" side.
+	 * @param never - The value closer to the "never" side.
+	 * @returns The midpoint between the two values.
+	 */
+	midpoint: (always: T, never: T) => T,
+	/**
+	 * A function that determines whether to continue the search based on the difference between `never` and `always`.
+	 * @param always - The value closer to the "always" side.
+	 * @param never - The value closer to the "never" side.
+	 * @returns `true` if the search should continue, `false` otherwise.
+	 */
+	shouldContinue: (always: T, never: T) => boolean,
+	options: KaryOptions = {},
+): Promise<T> => {
+	const { arity = 4, safety = "check", signal } = options;
+	const { concurrency = arity - 1 } = options;
+	if (!Number.isSafeInteger(arity) || arity < 2) {
+		throw new InvalidArgumentError("arity must be an integer greater than 1", [
+			"arity",
+		]);
+	}
+	if (
+		concurrency < 1 ||
+		!(Number.isSafeInteger(concurrency) || concurrency === Infinity)
+	) {
+		throw new InvalidArgumentError(
+			"concurrency must be a positive integer or Infinity",
+			["concurrency"],
+		);
+	}
+
+	const evaluate = (value: T) => evaluateAsync(predicate, value, signal);
+
+	if (safety === "check") {
+		const [alwaysResult, neverResult] = await mapConcurrently(
+			[alwaysEnd, neverEnd],
+			concurrency,
+			evaluate,
+		);
+		if (!alwaysResult) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (neverResult) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+	}
+
+	let always = alwaysEnd;
+	let never = neverEnd;
+
+	while (shouldContinue(always, never)) {
+		const probes = split(always, never, arity, midpoint, shouldContinue);
+		const results = await mapConcurrently(probes, concurrency, evaluate);
+		// The boundary lies right before the first probe that does not satisfy the condition
+		const first = results.indexOf(false);
+		const index = first === -1 ? probes.length : first;
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		if (index > 0) always = probes[index - 1]!;
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		if (index < probes.length) never = probes[index]!;
+	}
+
+	return always;
+};
+
+/**
+ * Performs a k‑ary search over a range of integer values.
+ * @example
+ * import { karySearchInteger } from "binary-search-generalized/kary";
+ * const result = await karySearchInteger(
+ *   0,
+ *   100,
+ *   async (value) => value ** 2 <= 180,
+ *   { arity: 4 },
+ * );
+ * // result is 13
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param options - Arity, concurrency limit, safety mode and abort signal.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const karySearchInteger = async (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: AsyncPredicate<number>,
+	options?: KaryOptions,
+): Promise<number> => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
+
+	return karySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointInteger,
+		(always, never) => Math.abs(never - always) > 1,
+		options,
+	);
+};
+
+/**
+ * Performs a k‑ary search over a range of bigint values.
+ * @example
+ * import { karySearchBigint } from "binary-search-generalized/kary";
+ * const result = await karySearchBigint(
+ *   100n,
+ *   0n,
+ *   async (value) => 2n ** value >= 10n ** 21n,
+ * );
+ * // result is 70n
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param options - Arity, concurrency limit, safety mode and abort signal.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const karySearchBigint = async (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	predicate: AsyncPredicate<bigint>,
+	options?: KaryOptions,
+): Promise<bigint> => {
+	return karySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointBigint,
+		(always, never) => (never > always ? never - always : always - never) > 1n,
+		options,
+	);
+};
+
+/**
+ * Performs a k‑ary search over a range of double‑precision floating‑point values.
+ * @example
+ * import { karySearchDouble } from "binary-search-generalized/kary";
+ * const result = await karySearchDouble(
+ *   0,
+ *   Math.PI / 2,
+ *   async (value) => Math.sin(value) <= 0.5,
+ * );
+ * // result ≈ Math.PI / 6
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - An asynchronous function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param options - Arity, concurrency limit, safety mode and abort signal.
+ * @returns A promise of the boundary value that satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const karySearchDouble = async (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: AsyncPredicate<number>,
+	/** @default "auto" */
+	epsilon: number | "auto" = "auto",
+	options?: KaryOptions,
+): Promise<number> => {
+	if (epsilon === "auto") {
+		if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
+			throw new InvalidArgumentError(
+				"alwaysEnd and neverEnd must be finite numbers",
+				["alwaysEnd", "neverEnd"],
+			);
+		}
+		return karySearchGeneralized(
+			alwaysEnd,
+			neverEnd,
+			predicate,
+			midpointDouble,
+			shouldContinueDouble,
+			options,
+		);
+	}
+
+	validateRange(alwaysEnd, neverEnd, epsilon);
+	return karySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		midpointDouble,
+		(always, never) => Math.abs(never - always) > epsilon,
+		options,
+	);
+};
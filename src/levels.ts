@@ -0,0 +1,192 @@
+import {
+	bigintDomain,
+	doubleDomain,
+	integerDomain,
+	type SearchDomain,
+} from "./domain.js";
+import { LevelOrderError } from "./errors.js";
+import { splitSegments, validateRange } from "./internal.js";
+
+/**
+ * A boundary between two adjacent levels of a monotone function.
+ * @template T - The type of the searched values.
+ * @template V - The type of the levels.
+ */
+export type LevelBoundary<T, V> = {
+	/** The last value at `level`, seen from `from`. */
+	readonly last: T;
+	/** The first value at `nextLevel`, next to `last` (within the precision of the search). */
+	readonly first: T;
+	/** The level at `last`. */
+	readonly level: V;
+	/** The level at `first`. */
+	readonly nextLevel: V;
+};
+
+/**
+ * @private
+ * Compares two levels with `<` and `>`, which orders numbers, bigints and strings.
+ */
+const compareLevels = <V>(a: V, b: V): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Finds all boundaries between the levels of a monotone function over the values of a domain.
+ *
+ * Each probe splits a range whose ends are at different levels, and ranges whose ends are at the same level are not probed,
+ * so the evaluations are shared by all levels: finding `k` boundaries among `n` values takes about `k * log2(n / k)` evaluations
+ * instead of the `k * log2(n)` of `k` separate searches.
+ * @example
+ * import { integerDomain } from "binary-search-generalized";
+ * import { findLevelBoundaries } from "binary-search-generalized/levels";
+ * const boundaries = findLevelBoundaries(0, 1000, (value) => Math.floor(Math.sqrt(value)), integerDomain);
+ * // boundaries[0] is { last: 0, first: 1, level: 0, nextLevel: 1 }, boundaries[1] is { last: 3, first: 4, level: 1, nextLevel: 2 }, ...
+ * @param from - One end of the range.
+ * @param to - The other end of the range.
+ * @param fn - The monotone function. Its level never decreases (or never increases) from `from` to `to`.
+ * @param domain - The values to search, such as {@link integerDomain}. Its `validate` is called first.
+ * @param compare - Compares two levels. By default, levels are compared with `<` and `>`; levels are equal when it returns zero.
+ * @param safety - Controls runtime checks. `"check"` validates that each evaluated level lies between the levels at the ends of its range. Use `"nocheck"` to skip it.
+ * @returns The boundaries in order from `from` to `to`. Levels that no probe hits (narrower than the precision) are skipped, so `nextLevel` may be more than one level after `level`.
+ * @throws {RangeError} If invalid values are specified.
+ * @throws {LevelOrderError} In the `"check"` safety mode, if an evaluated level is out of order. `earlier` is the value nearer to `from`, whose level comes after that of `later`.
+ */
+export const findLevelBoundaries = <T, V>(
+	from: T,
+	to: T,
+	fn: (value: T) => V,
+	domain: SearchDomain<T>,
+	compare: (a: V, b: V) => number = compareLevels,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): LevelBoundary<T, V>[] => {
+	domain.validate?.(from, to);
+	// The sign of `compare` from `from` toward `to`, checked against every probe
+	let direction = 0;
+	return splitSegments(
+		from,
+		to,
+		fn,
+		domain,
+		(a, b) => compare(a, b) === 0,
+		safety === "nocheck"
+			? undefined
+			: (low, lowLevel, middle, middleLevel, high, highLevel) => {
+					direction ||= Math.sign(compare(lowLevel, highLevel));
+					if (Math.sign(compare(lowLevel, middleLevel)) === -direction) {
+						throw new LevelOrderError(low, lowLevel, middle, middleLevel);
+					}
+					if (Math.sign(compare(middleLevel, highLevel)) === -direction) {
+						throw new LevelOrderError(middle, middleLevel, high, highLevel);
+					}
+				},
+	).map(([last, first, level, nextLevel]) => ({
+		last,
+		first,
+		level,
+		nextLevel,
+	}));
+};
+
+/**
+ * Finds all boundaries between the levels of a monotone function over a range of integer values.
+ * @example
+ * import { findLevelBoundariesInteger } from "binary-search-generalized/levels";
+ * const tiers = findLevelBoundariesInteger(0, 1_000_000, (requests) => pricingTier(requests));
+ * // tiers lists the last request count of each tier and the first of the next one
+ * @param from - One end of the range.
+ * @param to - The other end of the range.
+ * @param fn - The monotone function. Its level never decreases (or never increases) from `from` to `to`.
+ * @param compare - Compares two levels. By default, levels are compared with `<` and `>`.
+ * @param safety - Controls runtime checks. `"check"` validates that each evaluated level lies between the levels at the ends of its range. Use `"nocheck"` to skip it.
+ * @returns The boundaries in order from `from` to `to`, each between adjacent integers.
+ * @throws {RangeError} If invalid values are specified.
+ * @throws {LevelOrderError} In the `"check"` safety mode, if an evaluated level is out of order.
+ * @remarks `from` and `to` must be safe integers (`Number.isSafeInteger`).
+ */
+export const findLevelBoundariesInteger = <V>(
+	from: number,
+	to: number,
+	fn: (value: number) => V,
+	compare?: (a: V, b: V) => number,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): LevelBoundary<number, V>[] =>
+	findLevelBoundaries(from, to, fn, integerDomain, compare, safety);
+
+/**
+ * Finds all boundaries between the levels of a monotone function over a range of bigint values.
+ * @example
+ * import { findLevelBoundariesBigint } from "binary-search-generalized/levels";
+ * const boundaries = findLevelBoundariesBigint(1n, 10n ** 30n, (value) => value.toString().length);
+ * // boundaries[0] is { last: 9n, first: 10n, level: 1, nextLevel: 2 }, and the last one is between 10n ** 30n - 1n and 10n ** 30n
+ * @param from - One end of the range.
+ * @param to - The other end of the range.
+ * @param fn - The monotone function. Its level never decreases (or never increases) from `from` to `to`.
+ * @param compare - Compares two levels. By default, levels are compared with `<` and `>`.
+ * @param safety - Controls runtime checks. `"check"` validates that each evaluated level lies between the levels at the ends of its range. Use `"nocheck"` to skip it.
+ * @returns The boundaries in order from `from` to `to`, each between adjacent bigints.
+ * @throws {LevelOrderError} In the `"check"` safety mode, if an evaluated level is out of order.
+ */
+export const findLevelBoundariesBigint = <V>(
+	from: bigint,
+	to: bigint,
+	fn: (value: bigint) => V,
+	compare?: (a: V, b: V) => number,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): LevelBoundary<bigint, V>[] =>
+	findLevelBoundaries(from, to, fn, bigintDomain, compare, safety);
+
+/**
+ * Finds all boundaries between the levels of a monotone function over a range of double‑precision floating‑point values.
+ * @example
+ * import { findLevelBoundariesDouble } from "binary-search-generalized/levels";
+ * const bands = findLevelBoundariesDouble(0, 10, (latency) => slaBand(latency));
+ * // bands lists where each SLA band ends, within one ULP
+ * @param from - One end of the range.
+ * @param to - The other end of the range.
+ * @param fn - The monotone function. Its level never decreases (or never increases) from `from` to `to`.
+ * @param epsilon - The maximum acceptable distance between `last` and `first`. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param compare - Compares two levels. By default, levels are compared with `<` and `>`.
+ * @param safety - Controls runtime checks. `"check"` validates that each evaluated level lies between the levels at the ends of its range. Use `"nocheck"` to skip it.
+ * @returns The boundaries in order from `from` to `to`. Empty if `from` and `to` are equal, whatever the epsilon.
+ * @throws {RangeError} If invalid values are specified.
+ * @throws {LevelOrderError} In the `"check"` safety mode, if an evaluated level is out of order.
+ */
+export const findLevelBoundariesDouble = <V>(
+	from: number,
+	to: number,
+	fn: (value: number) => V,
+	/**
+	 * The maximum acceptable distance between `last` and `first`.
+	 * - a positive number: absolute termination gap; must be representable at the scale of the endpoints.
+	 * - "auto" (default): the limit precision of double‑precision floating‑point values.
+	 * @default "auto"
+	 */
+	epsilon: number | "auto" = "auto",
+	compare?: (a: V, b: V) => number,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): LevelBoundary<number, V>[] => {
+	if (epsilon === "auto") {
+		return findLevelBoundaries(from, to, fn, doubleDomain, compare, safety);
+	}
+	// Ends within epsilon (e.g. equal ends) are a valid range with nothing to narrow down, as with "auto"
+	if (
+		!(Math.abs(to - from) <= epsilon) ||
+		!(epsilon > 0 && Number.isFinite(epsilon))
+	) {
+		validateRange(from, to, epsilon);
+	}
+	return findLevelBoundaries(
+		from,
+		to,
+		fn,
+		{
+			...doubleDomain,
+			shouldContinue: (low, high) => Math.abs(high - low) > epsilon,
+		},
+		compare,
+		safety,
+	);
+};
@@ -1,3 +1,13 @@
+import type { SearchDomain } from "./domain.js";
+import {
+	DimensionMismatchError,
+	InvalidArgumentTypeError,
+	MonotonicityError,
+	PreconditionError,
+} from "./errors.js";
+import { createObserver, type Observer, type SearchOptions } from "./trace.js";
+import { type VerifyOptions, validateSamples } from "./verify.js";
+
 type Vector = readonly unknown[];
 type ComponentIndices<T extends Vector> = keyof T & number;
 export type Predicate<T extends Vector> = (vector: T) => boolean;
@@ -21,6 +31,16 @@ type _ShouldContinue<
 		? _ShouldContinue<T, R, [...A, (always: F, never: F) => boolean]>
 		: A;
 export type ShouldContinue<T extends Vector> = _ShouldContinue<T>;
+type _Domains<
+	T extends Vector,
+	U extends Vector = T,
+	A extends unknown[] = [],
+> = number extends T["length"]
+	? readonly SearchDomain<T[number]>[]
+	: U extends readonly [infer F, ...infer R extends unknown[]]
+		? _Domains<T, R, [...A, SearchDomain<F>]>
+		: A;
+export type Domains<T extends Vector> = _Domains<T>;
 type Division<T extends Vector> = {
 	readonly always: T;
 	readonly never: T;
@@ -103,11 +123,13 @@ const createDfsBinarySearch = <T extends Vector>(
 	divide: ReturnType<typeof createDivide<T>>,
 	midpoint: ReturnType<typeof createMidpoint<T>>,
 	shouldContinue: ReturnType<typeof createShouldContinue<T>>,
+	observer: Observer<T> | undefined,
 ) => {
 	const dfsBinarySearch = function* (
 		division: Division<T>,
 		components: Set<ComponentIndices<T>>,
 	): Generator<T> {
+		observer?.enter(division.always, division.never);
 		const _components = shouldContinue(division, components);
 		if (_components.size === 0) {
 			yield division.always;
@@ -116,6 +138,7 @@ const createDfsBinarySearch = <T extends Vector>(
 
 		const mid = midpoint(division, _components);
 		const result = predicate(mid);
+		observer?.probe(division.always, division.never, mid, result);
 
 		const forward = result ? division.never : division.always;
 		const backward = result ? division.always : division.never;
@@ -130,6 +153,155 @@ const createDfsBinarySearch = <T extends Vector>(
 	return dfsBinarySearch;
 };
 
+/**
+ * Options of {@link ndBinarySearch}.
+ */
+export type NdSearchOptions<T extends Vector> = SearchOptions<T> &
+	VerifyOptions & {
+		/**
+		 * Controls runtime checks. "verify" checks that `alwaysEnd` satisfies the predicate and `neverEnd` does not,
+		 * and that no evaluated vector contradicts monotonicity with the frontier of the latest vectors of the opposite result. It requires `number` or `bigint` components.
+		 * @default "nocheck"
+		 */
+		readonly safety?: "nocheck" | "verify";
+	};
+
+/**
+ * @private
+ * The maximum number of vectors of each result kept for the monotonicity check of the `"verify"` mode.
+ */
+const FRONTIER_LIMIT = 256;
+
+/**
+ * Wraps the predicate so that each evaluated vector is checked against the frontier of evaluated vectors with the opposite result.
+ * A vector precedes another if every component is equal or nearer to `alwaysEnd`.
+ *
+ * The frontier keeps the satisfying vectors that precede no other satisfying one, and the non‑satisfying vectors that no other
+ * non‑satisfying one precedes: a contradiction with a dropped vector is also one with a vector kept in its place.
+ * Each frontier holds at most {@link FRONTIER_LIMIT} vectors, dropping the oldest, so the check does not grow with the number of evaluations.
+ */
+const createMonotonicityCheck = <T extends Vector>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: Predicate<T>,
+) => {
+	if (
+		![...alwaysEnd, ...neverEnd].every(
+			(v) => typeof v === "number" || typeof v === "bigint",
+		)
+	) {
+		throw new InvalidArgumentTypeError(
+			"verify mode requires number or bigint components",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+	const ascending = Array.from(
+		alwaysEnd,
+		(v, i) => (v as number) <= (neverEnd[i] as number),
+	);
+	const precedes = (u: T, v: T) =>
+		ascending.every((asc, i) =>
+			asc
+				? (u[i] as number) <= (v[i] as number)
+				: (u[i] as number) >= (v[i] as number),
+		);
+	// Adds a vector to a frontier unless a kept vector covers it, and drops the vectors it covers
+	const extend = (
+		frontier: T[],
+		vector: T,
+		covers: (kept: T, other: T) => boolean,
+	) => {
+		if (frontier.some((kept) => covers(kept, vector))) return;
+		for (let i = frontier.length - 1; i >= 0; i--) {
+			// biome-ignore lint/style/noNonNullAssertion: i is always valid index
+			if (covers(vector, frontier[i]!)) frontier.splice(i, 1);
+		}
+		frontier.push(vector);
+		if (frontier.length > FRONTIER_LIMIT) frontier.shift();
+	};
+	const satisfied: T[] = [];
+	const unsatisfied: T[] = [];
+	const check = (vector: T) => {
+		const result = predicate(vector);
+		if (result) {
+			const witness = unsatisfied.find((u) => precedes(u, vector));
+			if (witness !== undefined) throw new MonotonicityError(witness, vector);
+			extend(satisfied, vector, (kept, other) => precedes(other, kept));
+		} else {
+			const witness = satisfied.find((v) => precedes(vector, v));
+			if (witness !== undefined) throw new MonotonicityError(vector, witness);
+			extend(unsatisfied, vector, precedes);
+		}
+		return result;
+	};
+	return { check, satisfied, unsatisfied };
+};
+
+/**
+ * @private
+ * Implementation of {@link ndBinarySearch}.
+ */
+const _ndBinarySearch = <T extends Vector>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: Predicate<T>,
+	midpoint: Midpoint<T>,
+	shouldContinue: ShouldContinue<T>,
+	options: NdSearchOptions<T> | undefined,
+): Generator<T> => {
+	if (
+		alwaysEnd.length !== neverEnd.length ||
+		neverEnd.length !== midpoint.length ||
+		midpoint.length !== shouldContinue.length
+	) {
+		throw new DimensionMismatchError({
+			alwaysEnd: alwaysEnd.length,
+			neverEnd: neverEnd.length,
+			midpoint: midpoint.length,
+			shouldContinue: shouldContinue.length,
+		});
+	}
+	const observer = createObserver(options);
+	const counted = observer?.count(predicate) ?? predicate;
+	const verifier =
+		options?.safety === "verify"
+			? createMonotonicityCheck(alwaysEnd, neverEnd, counted)
+			: undefined;
+	const samples = options?.verifySamples ?? 0;
+	if (verifier !== undefined) validateSamples(samples);
+	const p = verifier?.check ?? counted;
+	const divide = createDivide(p);
+	const m = createMidpoint(midpoint);
+	const c = createShouldContinue(shouldContinue);
+	const dfsBinarySearch = createDfsBinarySearch(p, divide, m, c, observer);
+	const components = new Set<ComponentIndices<T>>(
+		Array.from(alwaysEnd, (_, i) => i as ComponentIndices<T>),
+	);
+	if (verifier === undefined) {
+		return dfsBinarySearch({ always: alwaysEnd, never: neverEnd }, components);
+	}
+
+	const verified = function* (): Generator<T> {
+		if (!p(alwaysEnd)) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (p(neverEnd)) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+		yield* dfsBinarySearch({ always: alwaysEnd, never: neverEnd }, components);
+		// Sample between evaluated vectors of opposite results; the check throws on a contradiction
+		const { satisfied, unsatisfied } = verifier;
+		for (let k = 0; k < samples; k++) {
+			// biome-ignore lint/style/noNonNullAssertion: both lists contain at least the corners
+			const always = satisfied[k % satisfied.length]!;
+			// biome-ignore lint/style/noNonNullAssertion: both lists contain at least the corners
+			const never = unsatisfied[k % unsatisfied.length]!;
+			p(midpoint.map((fn, i) => fn(always[i], never[i])) as unknown as T);
+		}
+	};
+	return verified();
+};
+
 /**
  * Enumerate inside-border grid points of a monotone region in N dimensions.
  *
@@ -145,29 +317,85 @@ const createDfsBinarySearch = <T extends Vector>(
  * @param neverEnd A vector that definitely does not satisfy the predicate (outside/false corner).
  * @param predicate Monotone decision function across the hyper-rectangle from `alwaysEnd` to `neverEnd`.
  * @param midpoint Per-dimension midpoint functions; only applied to still-active dimensions.
+ *   Alternatively, per-dimension {@link SearchDomain}s in place of `midpoint` and `shouldContinue`; their `validate` is called first.
  * @param shouldContinue Per-dimension continuation predicates; a dimension deactivates when this returns false.
+ * @param options Instrumentation: an `onStep` hook and a `trace` to fill in. Steps report the "always" corner as `low` and the "never" corner as `high`;
+ *   `trace.history` lists every visited cell and `trace.bracket` is the most recently visited cell, which may be one that yielded no vector.
+ *   With `safety: "verify"`, the corners are checked first, and after the enumeration `verifySamples` extra vectors between
+ *   evaluated vectors of opposite results are checked too.
  * @returns A generator yielding vectors on the inside border; output order is not guaranteed.
+ * @throws {DimensionMismatchError} If the vectors and per-dimension functions (or domains) have different lengths.
+ * @throws {MonotonicityError} With `safety: "verify"`, while iterating, if an evaluated vector contradicts monotonicity with a recent one (up to 256 of each result are kept).
  */
-export const ndBinarySearch = <T extends Vector>(
+export const ndBinarySearch: {
+	<T extends Vector>(
+		alwaysEnd: T,
+		neverEnd: T,
+		predicate: Predicate<T>,
+		midpoint: Midpoint<T>,
+		shouldContinue: ShouldContinue<T>,
+		options?: NdSearchOptions<T>,
+	): Generator<T>;
+	<T extends Vector>(
+		alwaysEnd: T,
+		neverEnd: T,
+		predicate: Predicate<T>,
+		domains: Domains<T>,
+		options?: NdSearchOptions<T>,
+	): Generator<T>;
+} = <T extends Vector>(
 	alwaysEnd: T,
 	neverEnd: T,
 	predicate: Predicate<T>,
-	midpoint: Midpoint<T>,
-	shouldContinue: ShouldContinue<T>,
+	...args:
+		| [
+				midpoint: Midpoint<T>,
+				shouldContinue: ShouldContinue<T>,
+				options?: NdSearchOptions<T> | undefined,
+		  ]
+		| [domains: Domains<T>, options?: NdSearchOptions<T> | undefined]
 ): Generator<T> => {
+	if (Array.isArray(args[1])) {
+		const [midpoint, shouldContinue, options] = args as [
+			Midpoint<T>,
+			ShouldContinue<T>,
+			NdSearchOptions<T> | undefined,
+		];
+		return _ndBinarySearch(
+			alwaysEnd,
+			neverEnd,
+			predicate,
+			midpoint,
+			shouldContinue,
+			options,
+		);
+	}
+	const [domains, options] = args as unknown as [
+		readonly SearchDomain<unknown>[],
+		NdSearchOptions<T> | undefined,
+	];
 	if (
 		alwaysEnd.length !== neverEnd.length ||
-		neverEnd.length !== midpoint.length ||
-		midpoint.length !== shouldContinue.length
+		neverEnd.length !== domains.length
 	) {
-		throw new Error("All input vectors must have the same length");
+		throw new DimensionMismatchError({
+			alwaysEnd: alwaysEnd.length,
+			neverEnd: neverEnd.length,
+			midpoint: domains.length,
+			shouldContinue: domains.length,
+		});
 	}
-	const divide = createDivide(predicate);
-	const m = createMidpoint(midpoint);
-	const c = createShouldContinue(shouldContinue);
-	const dfsBinarySearch = createDfsBinarySearch(predicate, divide, m, c);
-	const components = new Set<ComponentIndices<T>>(
-		Array.from(alwaysEnd, (_, i) => i as ComponentIndices<T>),
+	for (const [i, domain] of domains.entries()) {
+		domain.validate?.(alwaysEnd[i], neverEnd[i]);
+	}
+	return _ndBinarySearch(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		domains.map((domain) => domain.midpoint) as unknown as Midpoint<T>,
+		domains.map(
+			(domain) => domain.shouldContinue,
+		) as unknown as ShouldContinue<T>,
+		options,
 	);
-	return dfsBinarySearch({ always: alwaysEnd, never: neverEnd }, components);
 };
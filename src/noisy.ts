@@ -0,0 +1,288 @@
+import { InvalidArgumentError } from "./errors.js";
+import { validateSafeIntegers } from "./internal.js";
+
+/**
+ * Options of the noisy binary searches.
+ */
+export type NoisySearchOptions = {
+	/**
+	 * The probability that a single predicate evaluation returns the wrong answer. Must be in `[0, 0.5)`.
+	 */
+	readonly errorRate: number;
+	/**
+	 * The posterior probability the most likely boundary must reach before the search stops. Must be in `(0, 1)`.
+	 */
+	readonly confidence: number;
+	/**
+	 * The maximum number of predicate evaluations. The search stops early with a lower `probability` when it is reached.
+	 * @default 10000
+	 */
+	readonly maxEvaluations?: number;
+};
+
+/**
+ * The result of a noisy binary search.
+ */
+export type NoisySearchResult<T> = {
+	/** The most likely boundary value (the most extreme value on the "always" side). */
+	readonly value: T;
+	/** The posterior probability that `value` is the boundary. */
+	readonly probability: number;
+	/** The number of predicate evaluations spent. */
+	readonly evaluations: number;
+};
+
+/**
+ * @private
+ * A piecewise‑constant posterior over the candidate offsets `0..size-1`.
+ * Segment `i` spans `[starts[i], starts[i + 1])` (the last one ends at `size`), and every offset in it has probability `densities[i]`.
+ */
+type Posterior = {
+	readonly size: bigint;
+	readonly starts: bigint[];
+	readonly densities: number[];
+};
+
+/**
+ * @private
+ * Returns the end (exclusive) of the segment at `index`.
+ */
+const segmentEnd = (posterior: Posterior, index: number): bigint =>
+	posterior.starts[index + 1] ?? posterior.size;
+
+/**
+ * @private
+ * Returns the query offset `q` whose posterior mass below (`P(boundary < q)`) is closest to one half.
+ * @remarks Assumes `posterior.size >= 2`, so `1 <= q <= size - 1`.
+ */
+const chooseQuery = (posterior: Posterior): bigint => {
+	const { size, starts, densities } = posterior;
+	let below = 0;
+	for (let i = 0; i < starts.length; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		const start = starts[i]!;
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		const density = densities[i]!;
+		const end = segmentEnd(posterior, i);
+		const mass = density * Number(end - start);
+		if (below + mass < 0.5 && i < starts.length - 1) {
+			below += mass;
+			continue;
+		}
+		// The mass below crosses one half inside this segment
+		const offset =
+			density > 0 ? BigInt(Math.floor((0.5 - below) / density)) : 0n;
+		const low = start > 1n ? start : 1n;
+		const high = end < size - 1n ? end : size - 1n;
+		let best = low;
+		let bestDistance = Number.POSITIVE_INFINITY;
+		for (const candidate of [start + offset, start + offset + 1n]) {
+			const q = candidate < low ? low : candidate > high ? high : candidate;
+			const distance = Math.abs(below + density * Number(q - start) - 0.5);
+			if (distance < bestDistance) {
+				best = q;
+				bestDistance = distance;
+			}
+		}
+		return best;
+	}
+	return 1n;
+};
+
+/**
+ * @private
+ * Multiplies the posterior by the likelihood of `result` at query offset `q`, then normalizes it.
+ */
+const update = (
+	posterior: Posterior,
+	q: bigint,
+	result: boolean,
+	errorRate: number,
+): void => {
+	const { starts, densities } = posterior;
+	// Split the segment containing q so that q starts a segment
+	let index = starts.findIndex((_, i) => segmentEnd(posterior, i) > q);
+	// biome-ignore lint/style/noNonNullAssertion: q is always inside the posterior
+	if (starts[index]! < q) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		densities.splice(index + 1, 0, densities[index]!);
+		starts.splice(index + 1, 0, q);
+		index++;
+	}
+	// `result` claims boundary >= q
+	const upper = result ? 1 - errorRate : errorRate;
+	const lower = result ? errorRate : 1 - errorRate;
+	let total = 0;
+	for (let i = 0; i < starts.length; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		densities[i]! *= i < index ? lower : upper;
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		total += densities[i]! * Number(segmentEnd(posterior, i) - starts[i]!);
+	}
+	for (let i = 0; i < densities.length; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		densities[i]! /= total;
+	}
+};
+
+/**
+ * @private
+ * Returns the offset with the highest posterior probability and that probability.
+ */
+const mostLikely = (posterior: Posterior): [bigint, number] => {
+	let offset = 0n;
+	let probability = -1;
+	posterior.densities.forEach((density, i) => {
+		if (density > probability) {
+			// biome-ignore lint/style/noNonNullAssertion: index is always valid
+			offset = posterior.starts[i]!;
+			probability = density;
+		}
+	});
+	return [offset, probability];
+};
+
+/**
+ * @private
+ * Probabilistic bisection over the offsets from `alwaysEnd` (`0`) toward `neverEnd` (`size`, excluded).
+ */
+const _noisyBinarySearch = (
+	size: bigint,
+	predicate: (offset: bigint) => boolean,
+	options: NoisySearchOptions,
+): NoisySearchResult<bigint> => {
+	const { errorRate, confidence, maxEvaluations = 10000 } = options;
+	if (!(errorRate >= 0 && errorRate < 0.5)) {
+		throw new InvalidArgumentError("errorRate must be in [0, 0.5)", [
+			"errorRate",
+		]);
+	}
+	if (!(confidence > 0 && confidence < 1)) {
+		throw new InvalidArgumentError("confidence must be in (0, 1)", [
+			"confidence",
+		]);
+	}
+	if (!(maxEvaluations >= 0)) {
+		throw new InvalidArgumentError("maxEvaluations must be non-negative", [
+			"maxEvaluations",
+		]);
+	}
+
+	const posterior: Posterior = {
+		size,
+		starts: [0n],
+		densities: [1 / Number(size)],
+	};
+	let evaluations = 0;
+	let [offset, probability] = mostLikely(posterior);
+	while (probability < confidence && evaluations < maxEvaluations) {
+		const q = chooseQuery(posterior);
+		const result = predicate(q);
+		evaluations++;
+		update(posterior, q, result, errorRate);
+		[offset, probability] = mostLikely(posterior);
+	}
+	return { value: offset, probability, evaluations };
+};
+
+/**
+ * Performs a probabilistic binary search over a range of integer values with a predicate that may answer wrongly.
+ *
+ * Keeps a posterior distribution over the boundary, queries the point that splits it closest to one half,
+ * and updates it by Bayes' rule assuming each answer is wrong with probability `errorRate`.
+ * @example
+ * import { noisyBinarySearchInteger } from "binary-search-generalized/noisy";
+ * const { value, probability, evaluations } = noisyBinarySearchInteger(
+ *   0,
+ *   1000,
+ *   (build) => runFlakyTests(build).passed,
+ *   { errorRate: 0.1, confidence: 0.99 },
+ * );
+ * // value is the last passing build with posterior probability >= 0.99
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. It may answer wrongly with probability `errorRate`.
+ * @param options - The error rate of the predicate, the target confidence and the evaluation budget.
+ * @returns The most likely boundary value, its posterior probability and the number of evaluations spent.
+ * @throws {RangeError} If invalid values or options are specified.
+ * @remarks The endpoints are never evaluated: `alwaysEnd` is assumed to satisfy the condition and `neverEnd` is assumed not to.
+ * `alwaysEnd` and `neverEnd` must be distinct safe integers (`Number.isSafeInteger`).
+ */
+export const noisyBinarySearchInteger = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise. May be wrong with probability `errorRate`.
+	 */
+	predicate: (value: number) => boolean,
+	options: NoisySearchOptions,
+): NoisySearchResult<number> => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
+	if (alwaysEnd === neverEnd) {
+		throw new InvalidArgumentError("alwaysEnd and neverEnd must be different", [
+			"alwaysEnd",
+			"neverEnd",
+		]);
+	}
+	const direction = alwaysEnd < neverEnd ? 1 : -1;
+	const size = BigInt(Math.abs(neverEnd - alwaysEnd));
+	const result = _noisyBinarySearch(
+		size,
+		(offset) => predicate(alwaysEnd + direction * Number(offset)),
+		options,
+	);
+	return {
+		...result,
+		value: alwaysEnd + direction * Number(result.value),
+	};
+};
+
+/**
+ * Performs a probabilistic binary search over a range of bigint values with a predicate that may answer wrongly.
+ * @example
+ * import { noisyBinarySearchBigint } from "binary-search-generalized/noisy";
+ * const { value } = noisyBinarySearchBigint(
+ *   0n,
+ *   10n ** 12n,
+ *   (offset) => isBeforeRegression(offset),
+ *   { errorRate: 0.05, confidence: 0.999 },
+ * );
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. It may answer wrongly with probability `errorRate`.
+ * @param options - The error rate of the predicate, the target confidence and the evaluation budget.
+ * @returns The most likely boundary value, its posterior probability and the number of evaluations spent.
+ * @throws {RangeError} If invalid values or options are specified.
+ * @remarks The endpoints are never evaluated: `alwaysEnd` is assumed to satisfy the condition and `neverEnd` is assumed not to.
+ */
+export const noisyBinarySearchBigint = (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise. May be wrong with probability `errorRate`.
+	 */
+	predicate: (value: bigint) => boolean,
+	options: NoisySearchOptions,
+): NoisySearchResult<bigint> => {
+	if (alwaysEnd === neverEnd) {
+		throw new InvalidArgumentError("alwaysEnd and neverEnd must be different", [
+			"alwaysEnd",
+			"neverEnd",
+		]);
+	}
+	const direction = alwaysEnd < neverEnd ? 1n : -1n;
+	const size = (neverEnd - alwaysEnd) * direction;
+	const result = _noisyBinarySearch(
+		size,
+		(offset) => predicate(alwaysEnd + direction * offset),
+		options,
+	);
+	return {
+		...result,
+		value: alwaysEnd + direction * result.value,
+	};
+};
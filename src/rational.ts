@@ -0,0 +1,254 @@
+import { InvalidArgumentError, PreconditionError } from "./errors.js";
+import type { Bracket, SearchDomain } from "./index.js";
+
+/**
+ * A rational number. The denominator is positive.
+ */
+export type Rational = {
+	readonly numerator: bigint;
+	readonly denominator: bigint;
+};
+
+/**
+ * @private
+ * Returns the greatest common divisor of two bigints.
+ */
+const gcd = (a: bigint, b: bigint): bigint => {
+	let x = a < 0n ? -a : a;
+	let y = b < 0n ? -b : b;
+	while (y !== 0n) [x, y] = [y, x % y];
+	return x;
+};
+
+/**
+ * Creates a rational number in lowest terms with a positive denominator.
+ * @example
+ * import { rational } from "binary-search-generalized/rational";
+ * rational(6n, -4n); // { numerator: -3n, denominator: 2n }
+ * @param numerator - The numerator.
+ * @param denominator - The denominator. Must not be zero.
+ * @returns The reduced rational number.
+ * @throws {RangeError} If `denominator` is zero.
+ */
+export const rational = (numerator: bigint, denominator = 1n): Rational => {
+	if (denominator === 0n) {
+		throw new InvalidArgumentError("denominator must not be zero", [
+			"denominator",
+		]);
+	}
+	const sign = denominator < 0n ? -1n : 1n;
+	const divisor = gcd(numerator, denominator);
+	return {
+		numerator: (sign * numerator) / divisor,
+		denominator: (sign * denominator) / divisor,
+	};
+};
+
+/**
+ * Compares two rational numbers.
+ * @param a - The first rational number.
+ * @param b - The second rational number.
+ * @returns A negative number if `a < b`, a positive number if `a > b`, and zero if they are equal.
+ */
+export const compareRational = (a: Rational, b: Rational): number => {
+	const difference = a.numerator * b.denominator - b.numerator * a.denominator;
+	return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+};
+
+/**
+ * Returns the mediant `(a + c) / (b + d)` of `a / b` and `c / d`, which lies strictly between them.
+ * @param a - The first rational number.
+ * @param b - The second rational number.
+ * @returns The mediant. It is in lowest terms when `a` and `b` are neighbours in the Stern–Brocot tree.
+ */
+export const mediant = (a: Rational, b: Rational): Rational => ({
+	numerator: a.numerator + b.numerator,
+	denominator: a.denominator + b.denominator,
+});
+
+/**
+ * @private
+ * Validates the endpoints and the maximum denominator.
+ */
+const validateRational = (
+	alwaysEnd: Rational,
+	neverEnd: Rational,
+	maxDenominator: bigint,
+): void => {
+	if (alwaysEnd.denominator <= 0n || neverEnd.denominator <= 0n) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must have positive denominators",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+	if (
+		maxDenominator < alwaysEnd.denominator ||
+		maxDenominator < neverEnd.denominator
+	) {
+		throw new InvalidArgumentError(
+			"maxDenominator must not be less than the denominators of alwaysEnd and neverEnd",
+			["maxDenominator"],
+		);
+	}
+};
+
+/**
+ * The domain of a binary search over rational numbers, to pass to `binarySearchGeneralized`.
+ *
+ * The midpoint is the mediant of the bounds, and the search continues while the mediant's denominator does not exceed `maxDenominator`.
+ * @example
+ * import { binarySearchGeneralized } from "binary-search-generalized";
+ * import { rational, rationalDomain } from "binary-search-generalized/rational";
+ * const result = binarySearchGeneralized(
+ *   rational(0n),
+ *   rational(1n),
+ *   (value) => value.numerator * 3n <= value.denominator,
+ *   rationalDomain(100n),
+ * );
+ * // result is { numerator: 1n, denominator: 3n }
+ * @param maxDenominator - The largest denominator to probe. Must be positive.
+ * @returns The domain. Its `validate` requires positive denominators of the endpoints up to `maxDenominator`.
+ * @throws {RangeError} If `maxDenominator` is not positive.
+ * @remarks When the endpoints are neighbours in the Stern–Brocot tree (e.g. two consecutive integers),
+ * the result is the same as {@link sternBrocotSearch}. Each step only moves one bound by one mediant,
+ * so thresholds very close to simple fractions take many steps; {@link sternBrocotSearch} batches them.
+ */
+export const rationalDomain = (
+	maxDenominator: bigint,
+): SearchDomain<Rational> => {
+	if (maxDenominator <= 0n) {
+		throw new InvalidArgumentError("maxDenominator must be positive", [
+			"maxDenominator",
+		]);
+	}
+	return {
+		midpoint: mediant,
+		shouldContinue: (always, never) =>
+			always.denominator + never.denominator <= maxDenominator,
+		compare: compareRational,
+		validate: (alwaysEnd, neverEnd) =>
+			validateRational(alwaysEnd, neverEnd, maxDenominator),
+	};
+};
+
+/**
+ * Performs a binary search over rational numbers by descending the Stern–Brocot tree.
+ *
+ * The result is the pair of fractions with denominators up to `maxDenominator` that are nearest to the boundary on each side.
+ * They are the simplest fractions on their sides: no fraction between them has a denominator up to `maxDenominator`.
+ * @example
+ * import { rational, sternBrocotSearch } from "binary-search-generalized/rational";
+ * const { always, never } = sternBrocotSearch(
+ *   rational(3n),
+ *   rational(4n),
+ *   (value) => value.numerator * 113n <= 355n * value.denominator,
+ *   1000n,
+ * );
+ * // always is 355/113 itself, and never is 2862/911, the nearest fraction above it with a denominator up to 1000
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic within the range.
+ * @param maxDenominator - The largest denominator of the result. Must not be less than the denominators of the endpoints.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @returns The boundary fraction that satisfies the condition, the nearest fraction on the other side, and the number of predicate evaluations between the endpoints.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks Runs of steps in the same direction are taken by galloping, so the number of evaluations grows with the square of the logarithm of `maxDenominator` at worst.
+ */
+export const sternBrocotSearch = (
+	alwaysEnd: Rational,
+	neverEnd: Rational,
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: Rational) => boolean,
+	maxDenominator: bigint,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): Bracket<Rational> => {
+	validateRational(alwaysEnd, neverEnd, maxDenominator);
+	if (safety === "check") {
+		if (!predicate(alwaysEnd)) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (predicate(neverEnd)) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+	}
+
+	const ascending = compareRational(alwaysEnd, neverEnd) < 0;
+	let iterations = 0;
+	// Whether a value lies left of the boundary; values outside the range are not evaluated
+	const isLeft = (value: Rational): boolean => {
+		const always = compareRational(value, alwaysEnd);
+		const never = compareRational(value, neverEnd);
+		let result: boolean;
+		if (ascending ? always <= 0 : always >= 0) result = true;
+		else if (ascending ? never >= 0 : never <= 0) result = false;
+		else {
+			result = predicate(value);
+			iterations++;
+		}
+		return result === ascending;
+	};
+
+	// Returns the largest k such that `base + k * toward` passes the test, given that k = 1 does
+	const gallop = (
+		base: Rational,
+		toward: Rational,
+		test: (value: Rational) => boolean,
+	): bigint => {
+		const at = (k: bigint) => ({
+			numerator: base.numerator + k * toward.numerator,
+			denominator: base.denominator + k * toward.denominator,
+		});
+		const limit =
+			toward.denominator === 0n
+				? undefined
+				: (maxDenominator - base.denominator) / toward.denominator;
+		const passes = (k: bigint) =>
+			(limit === undefined || k <= limit) && test(at(k));
+		let good = 1n;
+		let bad = 2n;
+		while (passes(bad)) {
+			good = bad;
+			bad *= 2n;
+		}
+		while (bad - good > 1n) {
+			const k = (good + bad) / 2n;
+			if (passes(k)) good = k;
+			else bad = k;
+		}
+		return good;
+	};
+
+	// Start from 0 between -∞ (-1/0) and +∞ (1/0)
+	const zero = { numerator: 0n, denominator: 1n };
+	let left = isLeft(zero) ? zero : { numerator: -1n, denominator: 0n };
+	let right = left === zero ? { numerator: 1n, denominator: 0n } : zero;
+	for (
+		let middle = mediant(left, right);
+		middle.denominator <= maxDenominator;
+		middle = mediant(left, right)
+	) {
+		if (isLeft(middle)) {
+			const k = gallop(left, right, isLeft);
+			left = {
+				numerator: left.numerator + k * right.numerator,
+				denominator: left.denominator + k * right.denominator,
+			};
+		} else {
+			const k = gallop(right, left, (value) => !isLeft(value));
+			right = {
+				numerator: right.numerator + k * left.numerator,
+				denominator: right.denominator + k * left.denominator,
+			};
+		}
+	}
+
+	return ascending
+		? { always: left, never: right, iterations }
+		: { always: right, never: left, iterations };
+};
@@ -0,0 +1,133 @@
+import { InvalidArgumentError, PreconditionError } from "./errors.js";
+import type { Bracket } from "./index.js";
+import {
+	fromOrderedBits,
+	shouldContinueDouble,
+	toOrderedBits,
+} from "./internal.js";
+
+/**
+ * @private
+ * Returns `ceil(log2(value))` for a positive bigint.
+ */
+const ceilLog2 = (value: bigint): number =>
+	value <= 1n ? 0 : (value - 1n).toString(2).length;
+
+/**
+ * Finds where a monotone function crosses a target value, returning the bracket of `binarySearchDouble` with the `"auto"` epsilon.
+ *
+ * The predicate is `f(value) <= y`. Instead of plain bisection, each probe is chosen by the ITP method
+ * (interpolate, truncate and project) over the ordered positions of doubles, so smooth functions converge superlinearly,
+ * and no function takes more than one iteration beyond bisection over those positions (at most 65).
+ * @example
+ * import { findRootDouble } from "binary-search-generalized/root";
+ * const { always, never } = findRootDouble(0, 2, (x) => x ** 3, 2);
+ * // always is the largest double whose cube is at most 2, and never is the next double
+ * @param alwaysEnd - The value where `f(value) <= y` holds and is one end of the range.
+ * @param neverEnd - The value where `f(value) <= y` does not hold and is the other end of the range.
+ * @param f - A continuous function that is monotonic within the range. It may increase or decrease.
+ * @param y - The target value.
+ * @param safety - Controls runtime checks. `"check"` validates that the endpoints satisfy the precondition. Use `"nocheck"` to skip it; `f` is still evaluated at both ends for the interpolation.
+ * @returns The final bracket: `always` satisfies `f(always) <= y`, `never` does not, and they are within one ULP as in the `"auto"` epsilon mode.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `iterations` counts the evaluations between the endpoints.
+ */
+export const findRootDouble = (
+	alwaysEnd: number,
+	neverEnd: number,
+	f: (value: number) => number,
+	y: number,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): Bracket<number> => {
+	if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must be finite numbers",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+	if (Number.isNaN(y)) {
+		throw new InvalidArgumentError("y must not be NaN", ["y"]);
+	}
+
+	let always = alwaysEnd;
+	let never = neverEnd;
+	const alwaysResult = f(always);
+	const neverResult = f(never);
+	if (safety === "check") {
+		if (!(alwaysResult <= y)) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (neverResult <= y) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+	}
+	// The signed distances from `y`, weighted by the Illinois rule
+	let alwaysDistance = alwaysResult - y;
+	let neverDistance = neverResult - y;
+	let lastSide: boolean | undefined;
+
+	// Positions grow from `alwaysEnd` toward `neverEnd`
+	const sign = alwaysEnd < neverEnd ? 1n : -1n;
+	let alwaysPosition = toOrderedBits(always);
+	let neverPosition = toOrderedBits(never);
+	const initialGap = Number((neverPosition - alwaysPosition) * sign);
+	const maxIterations = ceilLog2(BigInt(initialGap)) + 1;
+	// Truncation constants of ITP; see Oliveira and Takahashi (2020)
+	const k1 = 0.2 / initialGap;
+	const k2 = 2;
+
+	let iterations = 0;
+	let gap = (neverPosition - alwaysPosition) * sign;
+	while (gap > 1n && shouldContinueDouble(always, never)) {
+		const width = Number(gap);
+		const half = width / 2;
+
+		// Interpolate: regula falsi between the current ends
+		const ratio = alwaysDistance / (alwaysDistance - neverDistance);
+		const interpolated = always * (1 - ratio) + never * ratio;
+		const estimate =
+			ratio >= 0 && ratio <= 1 && Number.isFinite(interpolated)
+				? Number((toOrderedBits(interpolated) - alwaysPosition) * sign)
+				: half;
+		// Truncate: move toward the middle to keep the bracket shrinking from both sides
+		const direction = Math.sign(half - estimate);
+		const truncation = k1 * width ** k2;
+		const truncated =
+			truncation <= Math.abs(half - estimate)
+				? estimate + direction * truncation
+				: half;
+		// Project: stay close enough to the middle to finish within `maxIterations`
+		const radius = Math.max(0, 2 ** (maxIterations - iterations - 1) - half);
+		const offset =
+			Math.abs(truncated - half) <= radius
+				? truncated
+				: half - direction * radius;
+
+		const clamped = BigInt(
+			Math.min(Math.max(Math.round(offset), 1), width - 1),
+		);
+		const position =
+			alwaysPosition + (clamped < gap ? clamped : gap - 1n) * sign;
+		const probe = fromOrderedBits(position);
+		const result = f(probe);
+		const side = result <= y;
+		if (side) {
+			always = probe;
+			alwaysPosition = position;
+			alwaysDistance = result - y;
+			// Halve the weight of an end kept twice, so the interpolation does not stall on one side
+			if (lastSide === true) neverDistance /= 2;
+		} else {
+			never = probe;
+			neverPosition = position;
+			neverDistance = result - y;
+			if (lastSide === false) alwaysDistance /= 2;
+		}
+		lastSide = side;
+		iterations++;
+		gap = (neverPosition - alwaysPosition) * sign;
+	}
+
+	return { always, never, iterations };
+};
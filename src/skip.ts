@@ -0,0 +1,178 @@
+import { bigintDomain, integerDomain, type SearchDomain } from "./domain.js";
+import { PreconditionError } from "./errors.js";
+import type { Bracket } from "./index.js";
+
+/**
+ * A predicate that may skip a value it cannot evaluate (e.g. a broken build) by returning `"skip"`.
+ * @template T - The type of the searched values.
+ */
+export type SkipPredicate<T> = (value: T) => boolean | "skip";
+
+/**
+ * The final bracket of a search with skipped values.
+ * @template T - The type of the searched values.
+ */
+export type SkipBracket<T> = Bracket<T> & {
+	/**
+	 * The skipped values between `always` and `never`, in order from `always`.
+	 * If it is empty, `always` is the boundary value. Otherwise the boundary value is `always` or one of these values,
+	 * since the predicate is unknown there.
+	 */
+	readonly skipped: readonly T[];
+};
+
+/**
+ * @private
+ * Picks the gap to probe: the larger of the outer gaps (next to `always` and `never`) that can still be split,
+ * or else the largest gap between skipped values. The size of a gap is estimated from the number of times it was halved.
+ */
+const pickGap = (
+	depths: readonly number[],
+	canSplit: (gap: number) => boolean,
+): number | undefined => {
+	// The outer gaps first, so that the probes move away from runs of skipped values (e.g. a series of broken builds)
+	const outer = [0, depths.length - 1].filter(canSplit);
+	const candidates =
+		outer.length > 0 ? outer : depths.map((_, gap) => gap).filter(canSplit);
+	let picked: number | undefined;
+	for (const gap of candidates) {
+		// biome-ignore lint/style/noNonNullAssertion: gap and picked are always valid indices
+		if (picked === undefined || depths[gap]! < depths[picked]!) picked = gap;
+	}
+	return picked;
+};
+
+/**
+ * Performs a binary search over the values of a domain with a predicate that may skip values, like `git bisect skip`.
+ *
+ * When a probe is skipped, the search halves the larger of the gaps between the skipped values and the ends of the bracket instead,
+ * so that it moves away from runs of skipped values. The gaps between skipped values are probed last, only to narrow down an ambiguous boundary.
+ * The search stops when no gap between `always`, the skipped values and `never` can be split any further.
+ * @example
+ * import { integerDomain } from "binary-search-generalized";
+ * import { binarySearchGeneralizedSkip } from "binary-search-generalized/skip";
+ * const { always, skipped } = binarySearchGeneralizedSkip(0, builds.length - 1, (i) => {
+ *   const build = compile(builds[i]);
+ *   return build === null ? "skip" : build.passes();
+ * }, integerDomain);
+ * // the first bad build follows always, or one of the skipped builds if skipped is not empty
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns whether a value satisfies the condition, or `"skip"` if it cannot be evaluated. This function should be monotonic within the range, apart from the skipped values.
+ * @param domain - The values to search, such as {@link integerDomain}. Its `validate` is called first.
+ * @param safety - Controls runtime checks. `"check"` validates that `alwaysEnd` satisfies the condition and `neverEnd` does not; neither may be skipped. Use `"nocheck"` to skip precondition check.
+ * @returns The final bracket and the skipped values between its ends. `iterations` counts the skipped probes as well.
+ * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+ */
+export const binarySearchGeneralizedSkip = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: SkipPredicate<T>,
+	domain: SearchDomain<T>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): SkipBracket<T> => {
+	domain.validate?.(alwaysEnd, neverEnd);
+	if (safety === "check") {
+		if (predicate(alwaysEnd) !== true) {
+			throw new PreconditionError("alwaysEnd", alwaysEnd);
+		}
+		if (predicate(neverEnd) !== false) {
+			throw new PreconditionError("neverEnd", neverEnd);
+		}
+	}
+
+	// The bracket from `always` to `never` with the skipped values between, and how many times each gap between them was halved
+	const points = [alwaysEnd, neverEnd];
+	const depths = [0];
+	let iterations = 0;
+	for (;;) {
+		const gap = pickGap(depths, (i) =>
+			// biome-ignore lint/style/noNonNullAssertion: i and i + 1 are always valid indices
+			domain.shouldContinue(points[i]!, points[i + 1]!),
+		);
+		if (gap === undefined) break;
+		// biome-ignore lint/style/noNonNullAssertion: gap and gap + 1 are always valid indices
+		const middle = domain.midpoint(points[gap]!, points[gap + 1]!);
+		// biome-ignore lint/style/noNonNullAssertion: gap is always valid index
+		const depth = depths[gap]! + 1;
+		const result = predicate(middle);
+		iterations++;
+		if (result === "skip") {
+			points.splice(gap + 1, 0, middle);
+			depths.splice(gap, 1, depth, depth);
+		} else if (result) {
+			points.splice(0, gap + 1, middle);
+			depths.splice(0, gap + 1, depth);
+		} else {
+			points.splice(gap + 1, points.length, middle);
+			depths.splice(gap, depths.length, depth);
+		}
+	}
+
+	return {
+		// biome-ignore lint/style/noNonNullAssertion: points always has both ends
+		always: points[0]!,
+		// biome-ignore lint/style/noNonNullAssertion: points always has both ends
+		never: points[points.length - 1]!,
+		skipped: points.slice(1, -1),
+		iterations,
+	};
+};
+
+/**
+ * Performs a binary search over a range of integer values with a predicate that may skip values, like `git bisect skip`.
+ * @example
+ * import { binarySearchIntegerSkip } from "binary-search-generalized/skip";
+ * const { always, never, skipped } = binarySearchIntegerSkip(0, 100, (i) => (broken.has(i) ? "skip" : passes(i)));
+ * // if skipped is empty, always is the last passing build and never is the first failing one
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns whether a value satisfies the condition, or `"skip"` if it cannot be evaluated. This function should be monotonic within the range, apart from the skipped values.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @returns The final bracket and the skipped integers between its ends. The boundary value is `always` or one of the skipped integers.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const binarySearchIntegerSkip = (
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: SkipPredicate<number>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): SkipBracket<number> =>
+	binarySearchGeneralizedSkip(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		integerDomain,
+		safety,
+	);
+
+/**
+ * Performs a binary search over a range of bigint values with a predicate that may skip values, like `git bisect skip`.
+ * @example
+ * import { binarySearchBigintSkip } from "binary-search-generalized/skip";
+ * const { always, skipped } = binarySearchBigintSkip(0n, 10n ** 12n, (offset) => readRecord(offset) ?? "skip");
+ * // readRecord returns whether the record at offset is valid, or undefined if it is unreadable
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns whether a value satisfies the condition, or `"skip"` if it cannot be evaluated. This function should be monotonic within the range, apart from the skipped values.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @returns The final bracket and the skipped bigints between its ends. The boundary value is `always` or one of the skipped bigints.
+ * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+ */
+export const binarySearchBigintSkip = (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	predicate: SkipPredicate<bigint>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): SkipBracket<bigint> =>
+	binarySearchGeneralizedSkip(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		bigintDomain,
+		safety,
+	);
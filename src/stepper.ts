@@ -0,0 +1,490 @@
+import {
+	InvalidArgumentError,
+	InvalidArgumentTypeError,
+	PreconditionError,
+} from "./errors.js";
+import type { Bracket } from "./index.js";
+import {
+	midpointBigint,
+	midpointDouble,
+	midpointInteger,
+	shouldContinueDouble,
+	validateRange,
+	validateSafeIntegers,
+} from "./internal.js";
+
+/**
+ * Converts searched values to and from JSON‑compatible values.
+ * @example
+ * import BigNumber from "bignumber.js";
+ * const bigNumberCodec: StepperCodec<BigNumber> = {
+ *   encode: (value) => value.toString(),
+ *   decode: (encoded) => new BigNumber(encoded as string),
+ * };
+ * @template T - The type of the searched values.
+ */
+export type StepperCodec<T> = {
+	/**
+	 * @param value - A searched value.
+	 * @returns A value that `JSON.stringify` can serialize.
+	 */
+	encode(value: T): unknown;
+	/**
+	 * @param encoded - A value returned by `encode` after a round trip through JSON.
+	 * @returns The searched value.
+	 */
+	decode(encoded: unknown): T;
+};
+
+/**
+ * A codec for bigint values, which are stored as decimal strings.
+ */
+export const bigintCodec: StepperCodec<bigint> = {
+	encode: (value) => value.toString(),
+	decode: (encoded) => {
+		if (typeof encoded !== "string") {
+			throw new InvalidArgumentTypeError("encoded bigint must be a string", [
+				"encoded",
+			]);
+		}
+		return BigInt(encoded);
+	},
+};
+
+/**
+ * The serialized state of a {@link SearchStepper}, as returned by its `toJSON` method.
+ */
+export type SearchStepperState = {
+	/** The encoded bound that satisfies the condition. */
+	readonly always: unknown;
+	/** The encoded bound that does not satisfy the condition. */
+	readonly never: unknown;
+	/** The number of midpoint results reported so far. */
+	readonly iterations: number;
+	/** The endpoints whose results have not been reported yet. */
+	readonly unchecked: readonly ("alwaysEnd" | "neverEnd")[];
+};
+
+/**
+ * A binary search driven from outside: ask for a probe, evaluate it however and whenever you like, then report the result.
+ * @template T - The type of the searched values.
+ */
+export type SearchStepper<T> = {
+	/**
+	 * Returns the value to evaluate next: an unchecked endpoint first, then the midpoint of the bracket.
+	 * @returns The next probe, or `undefined` if the search is done.
+	 */
+	nextProbe(): T | undefined;
+	/**
+	 * Reports the predicate result of a value and narrows the bracket.
+	 * @param value - The evaluated value. Usually the last `nextProbe()`, but any value inside the bracket is accepted once both endpoints are checked.
+	 * @param result - `true` if the value satisfies the condition, `false` otherwise.
+	 * @throws {RangeError} If an endpoint result violates the precondition, an endpoint is still unchecked, the search is already done, or the value lies outside the bracket.
+	 */
+	report(value: T, result: boolean): void;
+	/**
+	 * @returns `true` if both endpoints are checked and the bracket has converged.
+	 */
+	isDone(): boolean;
+	/**
+	 * @returns The current bracket. Once `isDone()` is `true`, `always` is the boundary value.
+	 */
+	result(): Bracket<T>;
+	/**
+	 * @returns The state to store between sessions. `JSON.stringify(stepper)` calls this method.
+	 */
+	toJSON(): SearchStepperState;
+};
+
+/**
+ * @private
+ * Returns whether a value lies strictly between two primitive numeric values.
+ */
+const insideNumeric = <T extends number | bigint>(
+	always: T,
+	never: T,
+	value: T,
+): boolean =>
+	always < never
+		? always < value && value < never
+		: never < value && value < always;
+
+/**
+ * @private
+ * Identity codec for JSON‑compatible values.
+ */
+const identityCodec: StepperCodec<never> = {
+	encode: (value) => value,
+	decode: (encoded) => encoded as never,
+};
+
+/**
+ * @private
+ * Creates a stepper from a decoded state.
+ */
+const _createStepper = <T>(
+	state: Bracket<T> & SearchStepperState,
+	midpoint: (always: T, never: T) => T,
+	shouldContinue: (always: T, never: T) => boolean,
+	codec: StepperCodec<T>,
+	inside?: (always: T, never: T, value: T) => boolean,
+): SearchStepper<T> => {
+	let { always, never, iterations } = state;
+	const unchecked = [...state.unchecked];
+
+	return {
+		nextProbe: () => {
+			const end = unchecked[0];
+			if (end !== undefined) return end === "alwaysEnd" ? always : never;
+			return shouldContinue(always, never)
+				? midpoint(always, never)
+				: undefined;
+		},
+		report: (value, result) => {
+			const end = unchecked.find(
+				(end) => value === (end === "alwaysEnd" ? always : never),
+			);
+			if (end !== undefined) {
+				if (end === "alwaysEnd" && !result) {
+					throw new PreconditionError("alwaysEnd", value);
+				}
+				if (end === "neverEnd" && result) {
+					throw new PreconditionError("neverEnd", value);
+				}
+				unchecked.splice(unchecked.indexOf(end), 1);
+				return;
+			}
+			if (unchecked.length > 0) {
+				throw new InvalidArgumentError(
+					`the result of ${unchecked[0]} must be reported first`,
+					["value"],
+				);
+			}
+			if (!shouldContinue(always, never)) {
+				throw new InvalidArgumentError("the search is already done", ["value"]);
+			}
+			if (inside !== undefined && !inside(always, never, value)) {
+				throw new InvalidArgumentError(
+					`reported value ${value} must lie strictly between ${always} and ${never}`,
+					["value"],
+				);
+			}
+			if (result) always = value;
+			else never = value;
+			iterations++;
+		},
+		isDone: () => unchecked.length === 0 && !shouldContinue(always, never),
+		result: () => ({ always, never, iterations }),
+		toJSON: () => ({
+			always: codec.encode(always),
+			never: codec.encode(never),
+			iterations,
+			unchecked: [...unchecked],
+		}),
+	};
+};
+
+/**
+ * @private
+ * Parses and decodes a serialized state.
+ * @throws {TypeError} If the state is malformed.
+ */
+const decodeState = <T>(
+	state: SearchStepperState | string,
+	codec: StepperCodec<T>,
+): Bracket<T> & SearchStepperState => {
+	const parsed: unknown = typeof state === "string" ? JSON.parse(state) : state;
+	if (
+		typeof parsed !== "object" ||
+		parsed === null ||
+		!("always" in parsed) ||
+		!("never" in parsed) ||
+		!("iterations" in parsed) ||
+		!("unchecked" in parsed) ||
+		!Number.isSafeInteger(parsed.iterations) ||
+		(parsed.iterations as number) < 0 ||
+		!Array.isArray(parsed.unchecked) ||
+		!parsed.unchecked.every(
+			(end: unknown) => end === "alwaysEnd" || end === "neverEnd",
+		)
+	) {
+		throw new InvalidArgumentTypeError("invalid search stepper state", [
+			"state",
+		]);
+	}
+	return {
+		always: codec.decode(parsed.always),
+		never: codec.decode(parsed.never),
+		iterations: parsed.iterations as number,
+		unchecked: parsed.unchecked,
+	};
+};
+
+/**
+ * @private
+ * Returns the initial state of a search.
+ */
+const initialState = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	safety: "check" | "nocheck",
+): Bracket<T> & SearchStepperState => ({
+	always: alwaysEnd,
+	never: neverEnd,
+	iterations: 0,
+	unchecked: safety === "check" ? ["alwaysEnd", "neverEnd"] : [],
+});
+
+/**
+ * Creates a resumable binary search with the semantics of `binarySearchGeneralized`, driven by reported results.
+ * @example
+ * import { createSearchStepper } from "binary-search-generalized/stepper";
+ * const stepper = createSearchStepper(
+ *   0,
+ *   1000,
+ *   (always, never) => Math.floor((always + never) / 2),
+ *   (always, never) => Math.abs(never - always) > 1,
+ * );
+ * let probe = stepper.nextProbe();
+ * while (probe !== undefined) {
+ *   stepper.report(probe, await manualQaPasses(probe));
+ *   saveToTicket(JSON.stringify(stepper));
+ *   probe = stepper.nextProbe();
+ * }
+ * // stepper.result().always is the last passing build
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param midpoint - A function that determines the midpoint between two values.
+ * @param shouldContinue - Determines whether to continue searching based on the difference between `never` and `always`.
+ * @param safety - Controls runtime checks. `"check"` asks for both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @param codec - Converts values to and from JSON for `toJSON`. Defaults to the identity, which suits JSON‑compatible values.
+ * @returns A stepper at the start of the search.
+ * @remarks Values reported for midpoints are not checked against the bracket, since `T` has no known order.
+ */
+export const createSearchStepper = <T>(
+	alwaysEnd: T,
+	neverEnd: T,
+	/**
+	 * A function that determines the midpoint between two values.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 * @returns The midpoint between the two values.
+	 */
+	midpoint: (always: T, never: T) => T,
+	/**
+	 * A function that determines whether to continue the search based on the difference between `never` and `always`.
+	 * @param always - The value that always satisfies the condition.
+	 * @param never - The value that never satisfies the condition.
+	 * @returns `true` if the search should continue, `false` otherwise.
+	 */
+	shouldContinue: (always: T, never: T) => boolean,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	codec: StepperCodec<T> = identityCodec,
+): SearchStepper<T> =>
+	_createStepper(
+		initialState(alwaysEnd, neverEnd, safety),
+		midpoint,
+		shouldContinue,
+		codec,
+	);
+
+/**
+ * Restores a stepper created by {@link createSearchStepper} from its serialized state.
+ * @example
+ * import { restoreSearchStepper } from "binary-search-generalized/stepper";
+ * const stepper = restoreSearchStepper(loadFromTicket(), midpoint, shouldContinue);
+ * const probe = stepper.nextProbe();
+ * @param state - The state returned by `toJSON`, or its JSON string.
+ * @param midpoint - The midpoint function the stepper was created with.
+ * @param shouldContinue - The termination rule the stepper was created with.
+ * @param codec - The codec the stepper was created with.
+ * @returns A stepper that continues where the serialized one stopped.
+ * @throws {TypeError} If the state is malformed.
+ */
+export const restoreSearchStepper = <T>(
+	state: SearchStepperState | string,
+	midpoint: (always: T, never: T) => T,
+	shouldContinue: (always: T, never: T) => boolean,
+	codec: StepperCodec<T> = identityCodec,
+): SearchStepper<T> =>
+	_createStepper(decodeState(state, codec), midpoint, shouldContinue, codec);
+
+/**
+ * Creates a resumable binary search over a range of integer values, with the semantics of `binarySearchInteger`.
+ * @example
+ * import { createSearchStepperInteger } from "binary-search-generalized/stepper";
+ * const stepper = createSearchStepperInteger(1000, 2000, "nocheck");
+ * stepper.nextProbe(); // 1500
+ * stepper.report(1500, true);
+ * stepper.nextProbe(); // 1750
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param safety - Controls runtime checks. `"check"` asks for both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A stepper at the start of the search.
+ * @throws {RangeError} If invalid values are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const createSearchStepperInteger = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): SearchStepper<number> => {
+	validateSafeIntegers(alwaysEnd, neverEnd);
+	validateRange(alwaysEnd, neverEnd, 1);
+	return _createStepper(
+		initialState(alwaysEnd, neverEnd, safety),
+		midpointInteger,
+		(always, never) => Math.abs(never - always) > 1,
+		identityCodec,
+		insideNumeric,
+	);
+};
+
+/**
+ * Restores a stepper created by {@link createSearchStepperInteger} from its serialized state.
+ * @param state - The state returned by `toJSON`, or its JSON string.
+ * @returns A stepper that continues where the serialized one stopped.
+ * @throws {TypeError} If the state is malformed.
+ * @throws {RangeError} If the bounds are not safe integers.
+ */
+export const restoreSearchStepperInteger = (
+	state: SearchStepperState | string,
+): SearchStepper<number> => {
+	const decoded = decodeState<number>(state, identityCodec);
+	validateSafeIntegers(decoded.always, decoded.never);
+	return _createStepper(
+		decoded,
+		midpointInteger,
+		(always, never) => Math.abs(never - always) > 1,
+		identityCodec,
+		insideNumeric,
+	);
+};
+
+/**
+ * Creates a resumable binary search over a range of bigint values, with the semantics of `binarySearchBigint`.
+ * Bounds are serialized as decimal strings.
+ * @example
+ * import { createSearchStepperBigint } from "binary-search-generalized/stepper";
+ * const stepper = createSearchStepperBigint(0n, 10n ** 20n);
+ * const json = JSON.stringify(stepper);
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param safety - Controls runtime checks. `"check"` asks for both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A stepper at the start of the search.
+ * @throws {RangeError | TypeError} If invalid values are specified.
+ */
+export const createSearchStepperBigint = (
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): SearchStepper<bigint> => {
+	validateRange(alwaysEnd, neverEnd, 1n);
+	return _createStepper(
+		initialState(alwaysEnd, neverEnd, safety),
+		midpointBigint,
+		(always, never) => never - always > 1n || always - never > 1n,
+		bigintCodec,
+		insideNumeric,
+	);
+};
+
+/**
+ * Restores a stepper created by {@link createSearchStepperBigint} from its serialized state.
+ * @param state - The state returned by `toJSON`, or its JSON string.
+ * @returns A stepper that continues where the serialized one stopped.
+ * @throws {TypeError} If the state is malformed.
+ */
+export const restoreSearchStepperBigint = (
+	state: SearchStepperState | string,
+): SearchStepper<bigint> =>
+	_createStepper(
+		decodeState(state, bigintCodec),
+		midpointBigint,
+		(always, never) => never - always > 1n || always - never > 1n,
+		bigintCodec,
+		insideNumeric,
+	);
+
+/**
+ * @private
+ * Returns the termination rule of a double‑precision search.
+ */
+const shouldContinueDoubleWith = (
+	epsilon: number | "auto",
+): ((always: number, never: number) => boolean) =>
+	epsilon === "auto"
+		? shouldContinueDouble
+		: (always, never) => Math.abs(never - always) > epsilon;
+
+/**
+ * @private
+ * Validates the bounds of a double‑precision search.
+ */
+const validateFinite = (alwaysEnd: number, neverEnd: number) => {
+	if (!Number.isFinite(alwaysEnd) || !Number.isFinite(neverEnd)) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must be finite numbers",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+};
+
+/**
+ * Creates a resumable binary search over a range of double‑precision floating‑point values, with the semantics of `binarySearchDouble`.
+ * @example
+ * import { createSearchStepperDouble } from "binary-search-generalized/stepper";
+ * const stepper = createSearchStepperDouble(0.5, 4, 0.01, "nocheck");
+ * const dose = stepper.nextProbe();
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param epsilon - The maximum acceptable error margin for the search. By default (`"auto"`), uses a ULP‑based termination rule.
+ * @param safety - Controls runtime checks. `"check"` asks for both endpoints first and validates their results. Use `"nocheck"` to skip them.
+ * @returns A stepper at the start of the search.
+ * @throws {RangeError | TypeError} If invalid values are specified.
+ */
+export const createSearchStepperDouble = (
+	alwaysEnd: number,
+	neverEnd: number,
+	/** @default "auto" */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): SearchStepper<number> => {
+	if (epsilon === "auto") validateFinite(alwaysEnd, neverEnd);
+	else validateRange(alwaysEnd, neverEnd, epsilon);
+	return _createStepper(
+		initialState(alwaysEnd, neverEnd, safety),
+		midpointDouble,
+		shouldContinueDoubleWith(epsilon),
+		identityCodec,
+		insideNumeric,
+	);
+};
+
+/**
+ * Restores a stepper created by {@link createSearchStepperDouble} from its serialized state.
+ * @param state - The state returned by `toJSON`, or its JSON string.
+ * @param epsilon - The epsilon the stepper was created with.
+ * @returns A stepper that continues where the serialized one stopped.
+ * @throws {TypeError} If the state is malformed.
+ * @throws {RangeError} If the bounds are not finite numbers.
+ */
+export const restoreSearchStepperDouble = (
+	state: SearchStepperState | string,
+	/** @default "auto" */
+	epsilon: number | "auto" = "auto",
+): SearchStepper<number> => {
+	const decoded = decodeState<number>(state, identityCodec);
+	validateFinite(decoded.always, decoded.never);
+	return _createStepper(
+		decoded,
+		midpointDouble,
+		shouldContinueDoubleWith(epsilon),
+		identityCodec,
+		insideNumeric,
+	);
+};
@@ -0,0 +1,138 @@
+import { InvalidArgumentError } from "./errors.js";
+import { binarySearchGeneralized } from "./index.js";
+
+/**
+ * Options of {@link binarySearchString}.
+ */
+export type StringSearchOptions = {
+	/**
+	 * The characters the strings consist of, in ascending order. Characters are code points and must be distinct.
+	 * Strings compare by this order, which matches `<` on strings when the characters are sorted by code unit.
+	 */
+	readonly alphabet: string;
+	/** The maximum length of the strings, in characters. */
+	readonly maxLength: number;
+	/**
+	 * Controls runtime checks. Use `"nocheck"` to skip precondition check.
+	 * @default "check"
+	 */
+	readonly safety?: "check" | "nocheck";
+};
+
+/**
+ * @private
+ * Numbers the strings over an alphabet up to a maximum length in lexicographic order, where a prefix precedes its extensions.
+ */
+const createRanking = (characters: readonly string[], maxLength: number) => {
+	const size = BigInt(characters.length);
+	const digits = new Map(characters.map((c, i) => [c, BigInt(i)]));
+	// counts[m] is the number of strings of length up to m
+	const counts = [1n];
+	for (let m = 1; m <= maxLength; m++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		counts.push(counts[m - 1]! * size + 1n);
+	}
+	// biome-ignore lint/style/noNonNullAssertion: index is always valid
+	const subtree = (position: number) => counts[maxLength - position - 1]!;
+
+	const rank = (value: string): bigint => {
+		let result = 0n;
+		let position = 0;
+		for (const character of value) {
+			// The prefix itself and the strings under the smaller characters precede the value
+			// biome-ignore lint/style/noNonNullAssertion: characters are validated
+			result += 1n + digits.get(character)! * subtree(position);
+			position++;
+		}
+		return result;
+	};
+
+	const unrank = (value: bigint): string => {
+		let result = "";
+		let rest = value;
+		for (let position = 0; rest > 0n; position++) {
+			rest -= 1n;
+			const digit = rest / subtree(position);
+			rest -= digit * subtree(position);
+			result += characters[Number(digit)];
+		}
+		return result;
+	};
+
+	return { rank, unrank };
+};
+
+/**
+ * Performs a binary search over strings, probing the lexicographic middle of the bounds over an alphabet.
+ * @example
+ * import { binarySearchString } from "binary-search-generalized/string";
+ * const splitKey = binarySearchString(
+ *   "",
+ *   "zzzzzz",
+ *   (key) => store.countKeysBefore(key) <= 1000,
+ *   { alphabet: "abcdefghijklmnopqrstuvwxyz", maxLength: 6 },
+ * );
+ * // splitKey is the largest key up to 6 letters with at most 1000 stored keys before it
+ * @param alwaysEnd - The string that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The string that never satisfies the condition and is the other end of the range.
+ * @param predicate - A function that checks if a string satisfies the condition. This function should be monotonic within the range.
+ * @param options - The alphabet, the maximum length and the safety mode.
+ * @returns The boundary string that satisfies the condition. The next string in the order (within `maxLength`) does not.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks Strings are ordered lexicographically, and a string precedes its extensions (`"ab" < "aba" < "abb"`).
+ * Like {@link binarySearchGeneralized}, the search continues until the bounds are adjacent in that order.
+ */
+export const binarySearchString = (
+	alwaysEnd: string,
+	neverEnd: string,
+	/**
+	 * A function that checks if a string satisfies the condition.
+	 * @param value - The string to check.
+	 * @returns `true` if the string satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic within the range.
+	 */
+	predicate: (value: string) => boolean,
+	options: StringSearchOptions,
+): string => {
+	const { alphabet, maxLength, safety = "check" } = options;
+	const characters = [...alphabet];
+	if (
+		characters.length === 0 ||
+		new Set(characters).size !== characters.length
+	) {
+		throw new InvalidArgumentError(
+			"alphabet must consist of distinct characters",
+			["alphabet"],
+		);
+	}
+	if (!Number.isSafeInteger(maxLength) || maxLength < 0) {
+		throw new InvalidArgumentError("maxLength must be a non-negative integer", [
+			"maxLength",
+		]);
+	}
+	const valid = (value: string) => {
+		const chars = [...value];
+		return (
+			chars.length <= maxLength && chars.every((c) => alphabet.includes(c))
+		);
+	};
+	if (!valid(alwaysEnd) || !valid(neverEnd)) {
+		throw new InvalidArgumentError(
+			"alwaysEnd and neverEnd must consist of the alphabet within maxLength",
+			["alwaysEnd", "neverEnd"],
+		);
+	}
+
+	const { rank, unrank } = createRanking(characters, maxLength);
+	return binarySearchGeneralized(
+		alwaysEnd,
+		neverEnd,
+		predicate,
+		(always, never) => unrank((rank(always) + rank(never)) / 2n),
+		(always, never) => {
+			const gap = rank(never) - rank(always);
+			return gap > 1n || gap < -1n;
+		},
+		safety,
+	);
+};
@@ -0,0 +1,118 @@
+/**
+ * A single probe of a search, reported to {@link SearchOptions.onStep}.
+ * @remarks For searches without a known order (`binarySearchGeneralized`, `binarySearchDouble` with `"auto"` epsilon, `ndBinarySearch`),
+ * `low` is the "always" bound and `high` is the "never" bound.
+ */
+export type SearchStep<T> = {
+	/** The 1‑based number of this step. */
+	readonly iteration: number;
+	/** The lower (or "always") bound before the probe. */
+	readonly low: T;
+	/** The upper (or "never") bound before the probe. */
+	readonly high: T;
+	/** The value passed to the predicate. */
+	readonly probe: T;
+	/** The predicate result at `probe`. */
+	readonly result: boolean;
+};
+
+/**
+ * A pair of bounds of a search. See {@link SearchStep} for the meaning of `low` and `high`.
+ */
+export type SearchBracket<T> = {
+	readonly low: T;
+	readonly high: T;
+};
+
+/**
+ * A record of a search, filled in by the search it is passed to through {@link SearchOptions.trace}.
+ */
+export type SearchTrace<T> = {
+	/** The number of steps (midpoint probes) taken. */
+	iterations: number;
+	/** The number of predicate calls, including endpoint checks. */
+	evaluations: number;
+	/** The bounds at the start of the search and after each step. */
+	history: SearchBracket<T>[];
+	/** The last bracket of the search, or `undefined` if the search has not started. */
+	bracket: SearchBracket<T> | undefined;
+};
+
+/**
+ * Instrumentation options accepted by the searches.
+ */
+export type SearchOptions<T> = {
+	/**
+	 * Called after each probe of the search.
+	 * @param step - The bounds, probe and predicate result of the step.
+	 */
+	readonly onStep?: (step: SearchStep<T>) => void;
+	/**
+	 * A trace to fill in while the search runs. Create one with {@link createSearchTrace}.
+	 */
+	readonly trace?: SearchTrace<T>;
+};
+
+/**
+ * Creates an empty {@link SearchTrace} to pass to a search.
+ * @example
+ * import { binarySearchInteger, createSearchTrace } from "binary-search-generalized";
+ * const trace = createSearchTrace<number>();
+ * binarySearchInteger(0, 100, (v) => v * v <= 180, "check", { trace });
+ * // trace.iterations is 7, trace.evaluations is 9, trace.bracket is { low: 13, high: 14 }
+ * @returns A trace with no recorded steps.
+ */
+export const createSearchTrace = <T>(): SearchTrace<T> => ({
+	iterations: 0,
+	evaluations: 0,
+	history: [],
+	bracket: undefined,
+});
+
+/**
+ * @private
+ * Records steps of a search into the trace and hook of {@link SearchOptions}.
+ */
+export type Observer<T> = {
+	/** Wraps the predicate so that each call is counted. */
+	readonly count: <A extends T>(
+		predicate: (value: A) => boolean,
+	) => (value: A) => boolean;
+	/** Records the bracket the search moved to. */
+	readonly enter: (low: T, high: T) => void;
+	/** Records a probe of the search. */
+	readonly probe: (low: T, high: T, probe: T, result: boolean) => void;
+};
+
+/**
+ * @private
+ * Creates an observer for the options, or `undefined` when nothing is observed.
+ */
+export const createObserver = <T>(
+	options: SearchOptions<T> | undefined,
+): Observer<T> | undefined => {
+	const onStep = options?.onStep;
+	const trace = options?.trace;
+	if (onStep == null && trace == null) return undefined;
+	let iteration = 0;
+	return {
+		count: (predicate) =>
+			trace == null
+				? predicate
+				: (value) => {
+						trace.evaluations++;
+						return predicate(value);
+					},
+		enter: (low, high) => {
+			if (trace == null) return;
+			const bracket = { low, high };
+			trace.history.push(bracket);
+			trace.bracket = bracket;
+		},
+		probe: (low, high, probe, result) => {
+			iteration++;
+			if (trace != null) trace.iterations++;
+			onStep?.({ iteration, low, high, probe, result });
+		},
+	};
+};
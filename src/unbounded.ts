@@ -0,0 +1,287 @@
+import {
+	BoundaryNotFoundError,
+	InvalidArgumentError,
+	PreconditionError,
+} from "./errors.js";
+import {
+	binarySearchBigint,
+	binarySearchDouble,
+	binarySearchInteger,
+} from "./index.js";
+
+export { BoundaryNotFoundError } from "./errors.js";
+
+/**
+ * Options of the unbounded searches.
+ * @template T - The type of the searched values.
+ */
+export type UnboundedSearchOptions<T> = {
+	/**
+	 * The factor the distance from `alwaysEnd` is multiplied by after each probe that satisfies the condition. Must be greater than 1.
+	 * @default 2
+	 */
+	readonly growth?: number;
+	/**
+	 * The distance from `alwaysEnd` of the first probe. Must be positive.
+	 * @default 1
+	 */
+	readonly initialStep?: T;
+	/**
+	 * The farthest value to probe. If it still satisfies the condition, a {@link BoundaryNotFoundError} is thrown.
+	 * @default The largest (or smallest) safe integer for integers, `±Number.MAX_VALUE` for doubles, and `alwaysEnd ± 2n ** 1024n` for bigints.
+	 */
+	readonly limit?: T;
+	/**
+	 * Controls runtime checks. Use `"nocheck"` to skip the check that `alwaysEnd` satisfies the condition.
+	 * @default "check"
+	 */
+	readonly safety?: "check" | "nocheck";
+};
+
+/**
+ * @private
+ * Gallops from `alwaysEnd` toward `limit` until the predicate flips.
+ * @returns The last probe that satisfied the condition and the first probe that did not.
+ */
+const gallop = <T extends number | bigint>(
+	alwaysEnd: T,
+	ascending: boolean,
+	limit: T,
+	predicate: (value: T) => boolean,
+	initialStep: T,
+	next: (step: T) => T,
+	probeAt: (step: T) => T,
+	safety: "check" | "nocheck",
+): [T, T] => {
+	if (ascending ? limit <= alwaysEnd : limit >= alwaysEnd) {
+		throw new InvalidArgumentError(
+			"limit must lie beyond alwaysEnd in the search direction",
+			["limit"],
+		);
+	}
+	if (safety === "check" && !predicate(alwaysEnd)) {
+		throw new PreconditionError("alwaysEnd", alwaysEnd);
+	}
+
+	let always = alwaysEnd;
+	let step = initialStep;
+	while (true) {
+		const candidate = probeAt(step);
+		const probe = (ascending ? candidate > limit : candidate < limit)
+			? limit
+			: candidate;
+		// Skip steps below the precision of the values
+		if (probe !== always) {
+			if (!predicate(probe)) return [always, probe];
+			if (probe === limit) throw new BoundaryNotFoundError(limit);
+			always = probe;
+		}
+		step = next(step);
+	}
+};
+
+/**
+ * @private
+ * Validates the growth factor and the initial step.
+ */
+const validateGrowth = (growth: number, initialStep: number | bigint) => {
+	if (!(growth > 1) || !Number.isFinite(growth)) {
+		throw new InvalidArgumentError(
+			"growth must be a finite number greater than 1",
+			["growth"],
+		);
+	}
+	if (initialStep <= 0) {
+		throw new InvalidArgumentError("initialStep must be positive", [
+			"initialStep",
+		]);
+	}
+};
+
+/**
+ * Performs an exponential (galloping) search over integer values when only `alwaysEnd` is known.
+ *
+ * Probes `alwaysEnd ± initialStep * growth ** k` for `k = 0, 1, 2, …` until the predicate flips,
+ * then performs a binary search between the last two probes with {@link binarySearchInteger}.
+ * @example
+ * import { binarySearchUnboundedInteger } from "binary-search-generalized/unbounded";
+ * const batch = binarySearchUnboundedInteger(1, "asc", (size) => fitsInMemory(size));
+ * // batch is the largest batch size that fits in memory
+ * @param alwaysEnd - The value that always satisfies the condition and is the known end of the range.
+ * @param direction - The direction from `alwaysEnd` toward the values that do not satisfy the condition.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic.
+ * @param options - The growth factor, initial step, limit and safety mode.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {BoundaryNotFoundError} If `limit` still satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchUnboundedInteger = (
+	alwaysEnd: number,
+	direction: "asc" | "desc",
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic.
+	 */
+	predicate: (value: number) => boolean,
+	options: UnboundedSearchOptions<number> = {},
+): number => {
+	const sign = direction === "asc" ? 1 : -1;
+	const {
+		growth = 2,
+		initialStep = 1,
+		limit = sign * Number.MAX_SAFE_INTEGER,
+		safety = "check",
+	} = options;
+	validateGrowth(growth, initialStep);
+	if (
+		!Number.isSafeInteger(alwaysEnd) ||
+		!Number.isSafeInteger(limit) ||
+		!Number.isSafeInteger(initialStep)
+	) {
+		throw new InvalidArgumentError(
+			"alwaysEnd, limit, and initialStep must be safe integers",
+			["alwaysEnd", "limit", "initialStep"],
+		);
+	}
+
+	const [always, never] = gallop(
+		alwaysEnd,
+		direction === "asc",
+		limit,
+		predicate,
+		initialStep,
+		(step) => Math.min(Math.ceil(step * growth), Number.MAX_SAFE_INTEGER),
+		(step) => alwaysEnd + sign * step,
+		safety,
+	);
+	return binarySearchInteger(always, never, predicate, "nocheck");
+};
+
+/**
+ * @private
+ * Fixed‑point precision (in bits) of the growth factor applied to bigint steps.
+ */
+const GROWTH_PRECISION = 20n;
+
+/**
+ * Performs an exponential (galloping) search over bigint values when only `alwaysEnd` is known.
+ *
+ * Probes `alwaysEnd ± initialStep * growth ** k` for `k = 0, 1, 2, …` until the predicate flips,
+ * then performs a binary search between the last two probes with {@link binarySearchBigint}.
+ * @example
+ * import { binarySearchUnboundedBigint } from "binary-search-generalized/unbounded";
+ * const n = binarySearchUnboundedBigint(0n, "asc", (v) => v * v <= 10n ** 40n);
+ * // n is 10n ** 20n
+ * @param alwaysEnd - The value that always satisfies the condition and is the known end of the range.
+ * @param direction - The direction from `alwaysEnd` toward the values that do not satisfy the condition.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic.
+ * @param options - The growth factor, initial step, limit and safety mode.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {BoundaryNotFoundError} If `limit` still satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchUnboundedBigint = (
+	alwaysEnd: bigint,
+	direction: "asc" | "desc",
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic.
+	 */
+	predicate: (value: bigint) => boolean,
+	options: UnboundedSearchOptions<bigint> = {},
+): bigint => {
+	const sign = direction === "asc" ? 1n : -1n;
+	const {
+		growth = 2,
+		initialStep = 1n,
+		limit = alwaysEnd + sign * 2n ** 1024n,
+		safety = "check",
+	} = options;
+	validateGrowth(growth, initialStep);
+	const factor = BigInt(Math.round(growth * 2 ** Number(GROWTH_PRECISION)));
+
+	const [always, never] = gallop(
+		alwaysEnd,
+		direction === "asc",
+		limit,
+		predicate,
+		initialStep,
+		(step) => {
+			const next = (step * factor) >> GROWTH_PRECISION;
+			return next > step ? next : step + 1n;
+		},
+		(step) => alwaysEnd + sign * step,
+		safety,
+	);
+	return binarySearchBigint(always, never, predicate, "nocheck");
+};
+
+/**
+ * Performs an exponential (galloping) search over double‑precision floating‑point values when only `alwaysEnd` is known.
+ *
+ * Probes `alwaysEnd ± initialStep * growth ** k` for `k = 0, 1, 2, …` until the predicate flips,
+ * then performs a binary search between the last two probes with {@link binarySearchDouble}.
+ * @example
+ * import { binarySearchUnboundedDouble } from "binary-search-generalized/unbounded";
+ * const x = binarySearchUnboundedDouble(0, "asc", (v) => Math.exp(v) <= 1e100);
+ * // x ≈ 230.2585
+ * @param alwaysEnd - The value that always satisfies the condition and is the known end of the range.
+ * @param direction - The direction from `alwaysEnd` toward the values that do not satisfy the condition.
+ * @param predicate - A function that checks if a value satisfies the condition. This function should be monotonic.
+ * @param epsilon - The maximum acceptable error margin for the binary search. By default (`"auto"`), uses a ULP‑based termination rule.
+ * @param options - The growth factor, initial step, limit and safety mode.
+ * @returns The boundary value that satisfies the condition.
+ * @throws {BoundaryNotFoundError} If `limit` still satisfies the condition.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchUnboundedDouble = (
+	alwaysEnd: number,
+	direction: "asc" | "desc",
+	/**
+	 * A function that checks if a value satisfies the condition.
+	 * @param value - The value to check.
+	 * @returns `true` if the value satisfies the condition, `false` otherwise.
+	 * @remarks This function should be monotonic.
+	 */
+	predicate: (value: number) => boolean,
+	/** @default "auto" */
+	epsilon: number | "auto" = "auto",
+	options: UnboundedSearchOptions<number> = {},
+): number => {
+	const sign = direction === "asc" ? 1 : -1;
+	const {
+		growth = 2,
+		initialStep = 1,
+		limit = sign * Number.MAX_VALUE,
+		safety = "check",
+	} = options;
+	validateGrowth(growth, initialStep);
+	if (
+		!Number.isFinite(alwaysEnd) ||
+		!Number.isFinite(limit) ||
+		!Number.isFinite(initialStep)
+	) {
+		throw new InvalidArgumentError(
+			"alwaysEnd, limit, and initialStep must be finite numbers",
+			["alwaysEnd", "limit", "initialStep"],
+		);
+	}
+
+	const [always, never] = gallop(
+		alwaysEnd,
+		direction === "asc",
+		limit,
+		predicate,
+		initialStep,
+		(step) => step * growth,
+		(step) => alwaysEnd + sign * step,
+		safety,
+	);
+	// The last two probes may already be closer than epsilon
+	if (epsilon !== "auto" && Math.abs(never - always) < epsilon) return always;
+	return binarySearchDouble(always, never, predicate, epsilon, "nocheck");
+};
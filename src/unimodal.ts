@@ -0,0 +1,309 @@
+import { InvalidArgumentError, UnimodalityError } from "./errors.js";
+import { shouldContinueDouble } from "./internal.js";
+
+/**
+ * Whether the unimodal searches look for the maximum or the minimum of the function.
+ */
+export type UnimodalGoal = "max" | "min";
+
+/**
+ * @private
+ * Evaluates a function at most once per value and keeps the results for the unimodality check.
+ */
+const createRecorder = <T extends number | bigint, V extends number | bigint>(
+	fn: (value: T) => V,
+) => {
+	const results = new Map<T, V>();
+	const evaluate = (value: T): V => {
+		const cached = results.get(value);
+		if (cached !== undefined) return cached;
+		const result = fn(value);
+		results.set(value, result);
+		return result;
+	};
+	return { results, evaluate };
+};
+
+/**
+ * @private
+ * Throws if an evaluated value is worse than values on both sides of it.
+ * @param better - Returns `true` if the first result is strictly better than the second.
+ */
+const validateUnimodal = <T extends number | bigint, V extends number | bigint>(
+	results: ReadonlyMap<T, V>,
+	better: (a: V, b: V) => boolean,
+): void => {
+	const points = [...results].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	// The index of the best point at or after each index
+	const bestAfter: number[] = new Array(points.length);
+	for (let i = points.length - 1; i >= 0; i--) {
+		const next = bestAfter[i + 1];
+		bestAfter[i] =
+			// biome-ignore lint/style/noNonNullAssertion: indices are always valid
+			next !== undefined && better(points[next]![1], points[i]![1]) ? next : i;
+	}
+	let bestBefore = 0;
+	for (let i = 1; i + 1 < points.length; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: indices are always valid
+		const [middle, result] = points[i]!;
+		// biome-ignore lint/style/noNonNullAssertion: indices are always valid
+		const [left, leftResult] = points[bestBefore]!;
+		// biome-ignore lint/style/noNonNullAssertion: indices are always valid
+		const [right, rightResult] = points[bestAfter[i + 1]!]!;
+		if (better(leftResult, result) && better(rightResult, result)) {
+			throw new UnimodalityError(left, middle, right);
+		}
+		if (better(result, leftResult)) bestBefore = i;
+	}
+};
+
+/**
+ * @private
+ * Returns the comparison of results for the goal.
+ */
+const compareFor =
+	(goal: UnimodalGoal) =>
+	<V extends number | bigint>(a: V, b: V): boolean =>
+		goal === "max" ? a > b : a < b;
+
+/**
+ * @private
+ * Performs a ternary search over the integers between `from` and `to`, both inclusive.
+ * @param third - Returns a third of the distance between two values, rounded down.
+ * @param add - Returns the sum of two values.
+ * @param one - The unit of the values.
+ */
+const _ternarySearch = <T extends number | bigint, V extends number | bigint>(
+	from: T,
+	to: T,
+	fn: (value: T) => V,
+	goal: UnimodalGoal,
+	safety: "check" | "nocheck",
+	third: (low: T, high: T) => T,
+	add: (value: T, offset: T) => T,
+	one: T,
+): T => {
+	const better = compareFor(goal);
+	const { results, evaluate } = createRecorder(fn);
+	if (safety === "check") {
+		evaluate(from);
+		evaluate(to);
+	}
+
+	let low = from < to ? from : to;
+	let high = from < to ? to : from;
+	// Shrink the range until at most three values are left
+	while (third(low, high) > 0) {
+		const step = third(low, high);
+		const middle1 = add(low, step);
+		const middle2 = (high - step) as T;
+		const result1 = evaluate(middle1);
+		const result2 = evaluate(middle2);
+		if (better(result2, result1)) low = add(middle1, one);
+		else if (better(result1, result2)) high = (middle2 - one) as T;
+		else {
+			low = middle1;
+			high = middle2;
+		}
+	}
+
+	// Prefer the value nearer to `from` on a tie
+	const next = (value: T) =>
+		from < to ? add(value, one) : ((value - one) as T);
+	let best = from < to ? low : high;
+	for (
+		let value = next(best);
+		low <= value && value <= high;
+		value = next(value)
+	) {
+		if (better(evaluate(value), evaluate(best))) best = value;
+	}
+
+	if (safety === "check") validateUnimodal(results, better);
+	return best;
+};
+
+/**
+ * Finds the maximum (or minimum) of a unimodal function over a range of integer values by ternary search.
+ * @example
+ * import { ternarySearchInteger } from "binary-search-generalized/unimodal";
+ * const threads = ternarySearchInteger(1, 64, (threads) => measureThroughput(threads));
+ * // threads is the thread count with the highest throughput
+ * @param from - One end of the range, included in the search.
+ * @param to - The other end of the range, included in the search. It may be less than `from`.
+ * @param fn - The unimodal function. It must strictly increase and then strictly decrease for `"max"`, and the opposite for `"min"`; either part may be empty.
+ * @param goal - Whether to find the maximum (`"max"`) or the minimum (`"min"`).
+ * @param safety - Controls runtime checks. `"check"` also evaluates both ends and validates that no evaluated value is worse than values on both sides of it. Use `"nocheck"` to skip them.
+ * @returns The value at which `fn` is best. If two adjacent values share the optimum, the one nearer to `from` is returned.
+ * @throws {RangeError} If invalid values are specified.
+ * @throws {UnimodalityError} In the `"check"` safety mode, if the evaluated results contradict unimodality.
+ * @remarks `from` and `to` must be safe integers (`Number.isSafeInteger`).
+ */
+export const ternarySearchInteger = (
+	from: number,
+	to: number,
+	fn: (value: number) => number,
+	/** @default "max" */
+	goal: UnimodalGoal = "max",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): number => {
+	if (!Number.isSafeInteger(from) || !Number.isSafeInteger(to)) {
+		throw new InvalidArgumentError("from and to must be safe integers", [
+			"from",
+			"to",
+		]);
+	}
+	return _ternarySearch(
+		from,
+		to,
+		fn,
+		goal,
+		safety,
+		(low, high) => Math.floor((high - low) / 3),
+		(value, offset) => value + offset,
+		1,
+	);
+};
+
+/**
+ * Finds the maximum (or minimum) of a unimodal function over a range of bigint values by ternary search.
+ * @example
+ * import { ternarySearchBigint } from "binary-search-generalized/unimodal";
+ * const result = ternarySearchBigint(0n, 10n ** 18n, (value) => -((value - 12345n) ** 2n));
+ * // result is 12345n
+ * @param from - One end of the range, included in the search.
+ * @param to - The other end of the range, included in the search. It may be less than `from`.
+ * @param fn - The unimodal function. It must strictly increase and then strictly decrease for `"max"`, and the opposite for `"min"`; either part may be empty.
+ * @param goal - Whether to find the maximum (`"max"`) or the minimum (`"min"`).
+ * @param safety - Controls runtime checks. `"check"` also evaluates both ends and validates that no evaluated value is worse than values on both sides of it. Use `"nocheck"` to skip them.
+ * @returns The value at which `fn` is best. If two adjacent values share the optimum, the one nearer to `from` is returned.
+ * @throws {UnimodalityError} In the `"check"` safety mode, if the evaluated results contradict unimodality.
+ */
+export const ternarySearchBigint = (
+	from: bigint,
+	to: bigint,
+	fn: (value: bigint) => number | bigint,
+	/** @default "max" */
+	goal: UnimodalGoal = "max",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): bigint =>
+	_ternarySearch(
+		from,
+		to,
+		fn,
+		goal,
+		safety,
+		(low, high) => (high - low) / 3n,
+		(value, offset) => value + offset,
+		1n,
+	);
+
+/**
+ * @private
+ * The ratio of the golden section, `1 / φ`.
+ */
+const INVERSE_PHI = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Finds the maximum (or minimum) of a unimodal function over a range of double‑precision floating‑point values by golden‑section search.
+ * @example
+ * import { unimodalSearchDouble } from "binary-search-generalized/unimodal";
+ * const result = unimodalSearchDouble(0, Math.PI, Math.sin);
+ * // result is approximately Math.PI / 2
+ * @param from - One end of the range.
+ * @param to - The other end of the range. It may be less than `from`.
+ * @param fn - The unimodal function. It must strictly increase and then strictly decrease for `"max"`, and the opposite for `"min"`; either part may be empty.
+ * @param goal - Whether to find the maximum (`"max"`) or the minimum (`"min"`).
+ * @param epsilon - The maximum acceptable width of the final range. By default (`"auto"`), uses a ULP‑based termination rule that adapts to the magnitude of the values.
+ * @param safety - Controls runtime checks. `"check"` also evaluates both ends and validates that no evaluated value is worse than values on both sides of it. Use `"nocheck"` to skip them.
+ * @returns The better of the two interior points of the final range. On a tie, the one nearer to `from` is returned.
+ * @throws {RangeError} If invalid values are specified.
+ * @throws {UnimodalityError} In the `"check"` safety mode, if the evaluated results contradict unimodality.
+ * @remarks The function is evaluated once per step, reusing the other interior point of the previous step. When rounding moves the reused point
+ * out of place, both interior points are placed again from the ends of the range, at the cost of one more evaluation.
+ */
+export const unimodalSearchDouble = (
+	from: number,
+	to: number,
+	fn: (value: number) => number,
+	/** @default "max" */
+	goal: UnimodalGoal = "max",
+	/**
+	 * The maximum acceptable width of the final range.
+	 * - "auto" (default): the limit precision of double‑precision floating‑point values.
+	 * @default "auto"
+	 */
+	epsilon: number | "auto" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+): number => {
+	if (!Number.isFinite(from) || !Number.isFinite(to)) {
+		throw new InvalidArgumentError("from and to must be finite numbers", [
+			"from",
+			"to",
+		]);
+	}
+	if (epsilon !== "auto" && !(epsilon > 0)) {
+		throw new InvalidArgumentError("epsilon must be positive", ["epsilon"]);
+	}
+	const shouldContinue =
+		epsilon === "auto"
+			? shouldContinueDouble
+			: (low: number, high: number) => high - low > epsilon;
+
+	const better = compareFor(goal);
+	const { results, evaluate } = createRecorder(fn);
+	if (safety === "check") {
+		evaluate(from);
+		evaluate(to);
+	}
+
+	// Halve before subtracting, and scale by less than 2, so that the width does not overflow
+	const section = (low: number, high: number) =>
+		(high / 2 - low / 2) * (2 * (1 - INVERSE_PHI));
+	let low = Math.min(from, to);
+	let high = Math.max(from, to);
+	let middle1 = low + section(low, high);
+	let middle2 = high - section(low, high);
+	let result1 = evaluate(middle1);
+	let result2 = evaluate(middle2);
+	while (shouldContinue(low, high)) {
+		const rising = better(result2, result1);
+		const nextLow = rising ? middle1 : low;
+		const nextHigh = rising ? high : middle2;
+		const next = rising
+			? high - section(middle1, high)
+			: low + section(low, middle2);
+		if (rising && middle2 < next && next < high) {
+			low = middle1;
+			middle1 = middle2;
+			result1 = result2;
+			middle2 = next;
+			result2 = evaluate(middle2);
+		} else if (!rising && low < next && next < middle1) {
+			high = middle2;
+			middle2 = middle1;
+			result2 = result1;
+			middle1 = next;
+			result1 = evaluate(middle1);
+		} else {
+			// The reused point has drifted out of place by rounding (e.g. over a wide range): place both interior points again
+			const again1 = nextLow + section(nextLow, nextHigh);
+			const again2 = nextHigh - section(nextLow, nextHigh);
+			if (!(nextLow < again1 && again1 < again2 && again2 < nextHigh)) break;
+			low = nextLow;
+			high = nextHigh;
+			middle1 = again1;
+			middle2 = again2;
+			result1 = evaluate(middle1);
+			result2 = evaluate(middle2);
+		}
+	}
+
+	if (safety === "check") validateUnimodal(results, better);
+	// Prefer the value nearer to `from` on a tie
+	if (from < to) return better(result2, result1) ? middle2 : middle1;
+	return better(result1, result2) ? middle1 : middle2;
+};
@@ -0,0 +1,70 @@
+import { InvalidArgumentError, MonotonicityError } from "./errors.js";
+
+/**
+ * Options of the `"verify"` safety mode.
+ */
+export type VerifyOptions = {
+	/**
+	 * The number of extra points evaluated after the search to check the predicate between the evaluated points.
+	 * Only used in the `"verify"` safety mode. By default no extra point is evaluated, so `"verify"` only adds the checks
+	 * that need no extra evaluation. No point is sampled either if the search stops early on `maxEvaluations` or `deadline`.
+	 * @default 0
+	 */
+	readonly verifySamples?: number;
+};
+
+/**
+ * @private
+ * Validates the number of verification samples.
+ */
+export const validateSamples = (samples: number): void => {
+	if (!Number.isSafeInteger(samples) || samples < 0) {
+		throw new InvalidArgumentError(
+			"verifySamples must be a non-negative integer",
+			["verifySamples"],
+		);
+	}
+};
+
+/**
+ * @private
+ * Evaluates extra points between the evaluated points of a one‑dimensional search, breadth first.
+ * @param alwaysChain - The values that satisfied the condition, from `alwaysEnd` toward the boundary.
+ * @param neverChain - The values that did not satisfy the condition, from `neverEnd` toward the boundary.
+ * @param midpoint - Returns a point strictly between two values, the one nearer to `alwaysEnd` first.
+ * @param splittable - Returns whether there is a point strictly between two values, the one nearer to `alwaysEnd` first.
+ * @throws {MonotonicityError} If a sample contradicts the evaluated points around it.
+ */
+export const sampleChains = <T>(
+	alwaysChain: readonly T[],
+	neverChain: readonly T[],
+	predicate: (value: T) => boolean,
+	midpoint: (nearer: T, farther: T) => T,
+	splittable: (nearer: T, farther: T) => boolean,
+	samples: number,
+): void => {
+	const gaps: [nearer: T, farther: T, expected: boolean][] = [];
+	for (let i = 0; i + 1 < alwaysChain.length; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		gaps.push([alwaysChain[i]!, alwaysChain[i + 1]!, true]);
+	}
+	for (let i = 0; i + 1 < neverChain.length; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		gaps.push([neverChain[i + 1]!, neverChain[i]!, false]);
+	}
+
+	let remaining = samples;
+	for (let i = 0; i < gaps.length && remaining > 0; i++) {
+		// biome-ignore lint/style/noNonNullAssertion: index is always valid
+		const [nearer, farther, expected] = gaps[i]!;
+		if (!splittable(nearer, farther)) continue;
+		const sample = midpoint(nearer, farther);
+		remaining--;
+		if (predicate(sample) !== expected) {
+			throw expected
+				? new MonotonicityError(sample, farther)
+				: new MonotonicityError(nearer, sample);
+		}
+		gaps.push([nearer, sample, expected], [sample, farther, expected]);
+	}
+};
@@ -0,0 +1,250 @@
+import type { SearchDomain } from "./domain.js";
+import type { EvaluationOptions } from "./evaluation.js";
+import {
+	type Bracket,
+	binarySearchBigintBracket,
+	binarySearchDoubleBracket,
+	binarySearchGeneralizedBracket,
+	binarySearchIntegerBracket,
+} from "./index.js";
+
+/**
+ * The result of a witness predicate in the explicit form: whether the value satisfies the condition, and what was computed to decide it.
+ * @template W - The type of the witness.
+ */
+export type Witnessed<W> = {
+	readonly ok: boolean;
+	readonly witness?: W;
+};
+
+/**
+ * A predicate that returns the artifact it computed along with its result: either {@link Witnessed},
+ * or the witness itself when the value satisfies the condition and `null` (or `undefined`) when it does not.
+ * @template T - The type of the searched values.
+ * @template W - The type of the witness.
+ * @remarks A result is taken as the explicit form if it is an object with a boolean `ok` property,
+ * so wrap witnesses of that shape in `{ ok: true, witness }`.
+ */
+export type WitnessPredicate<T, W> = (
+	value: T,
+) => Witnessed<W> | W | null | undefined;
+
+/**
+ * The final bracket of a witness search, with the witness produced at the boundary.
+ * @template T - The type of the searched values.
+ * @template W - The type of the witness.
+ */
+export type WitnessBracket<T, W> = Bracket<T> & {
+	/**
+	 * The witness returned at `always`, or `undefined` if `always` is `alwaysEnd` and was not evaluated (the `"nocheck"` safety mode),
+	 * or if the predicate returned no witness there.
+	 */
+	readonly witness: W | undefined;
+};
+
+/**
+ * Options of the witness searches: those of the plain searches except `cache`, since cached results carry no witness.
+ * @template T - The type of the searched values.
+ */
+export type WitnessOptions<T> = Omit<EvaluationOptions<T>, "cache">;
+
+/**
+ * @private
+ * Wraps a witness predicate in a boolean predicate and keeps the witness of the latest value that satisfies the condition,
+ * which is `always` once the search ends.
+ * @param isNearer - Returns whether a satisfying value is nearer to the boundary than the latest one. By default, every one is,
+ * as in a search; values sampled while verifying are not.
+ */
+const createRecorder = <T, W>(
+	predicate: WitnessPredicate<T, W>,
+	isNearer: (value: T, latest: T) => boolean = () => true,
+) => {
+	let latest:
+		| { readonly value: T; readonly witness: W | undefined }
+		| undefined;
+	const wrapped = (value: T): boolean => {
+		const result = predicate(value);
+		const explicit =
+			typeof result === "object" &&
+			result !== null &&
+			typeof (result as Partial<Witnessed<W>>).ok === "boolean";
+		const ok = explicit
+			? (result as Witnessed<W>).ok
+			: result !== null && result !== undefined;
+		if (ok && (latest === undefined || isNearer(value, latest.value))) {
+			latest = {
+				value,
+				witness: explicit ? (result as Witnessed<W>).witness : (result as W),
+			};
+		}
+		return ok;
+	};
+	return {
+		predicate: wrapped,
+		withWitness: (bracket: Bracket<T>): WitnessBracket<T, W> => ({
+			...bracket,
+			witness:
+				latest !== undefined && latest.value === bracket.always
+					? latest.witness
+					: undefined,
+		}),
+	};
+};
+
+/**
+ * Like `binarySearchIntegerBracket`, but with a predicate that returns a witness, which is returned with the boundary.
+ * @example
+ * import { binarySearchIntegerWitness } from "binary-search-generalized/witness";
+ * const { always, witness } = binarySearchIntegerWitness(64, 0, (machines) => schedule(jobs, machines)); // null if none
+ * // always is the fewest machines that have a schedule, and witness is that schedule
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns the witness (or `{ ok: true, witness }`) if a value satisfies the condition, and `null` (or `{ ok: false }`) otherwise. This function should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`) and an evaluation budget (`maxEvaluations`, `deadline`).
+ * @returns The final bracket and the witness returned at `always`. No value is evaluated only to get the witness.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ * @remarks `alwaysEnd` and `neverEnd` must be safe integers (`Number.isSafeInteger`).
+ */
+export const binarySearchIntegerWitness = <W>(
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: WitnessPredicate<number, W>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: WitnessOptions<number>,
+): WitnessBracket<number, W> => {
+	const recorder = createRecorder(predicate);
+	return recorder.withWitness(
+		binarySearchIntegerBracket(
+			alwaysEnd,
+			neverEnd,
+			recorder.predicate,
+			safety,
+			options,
+		),
+	);
+};
+
+/**
+ * Like `binarySearchBigintBracket`, but with a predicate that returns a witness, which is returned with the boundary.
+ * @example
+ * import { binarySearchBigintWitness } from "binary-search-generalized/witness";
+ * const { always, witness } = binarySearchBigintWitness(0n, 10n ** 20n, (value) => {
+ *   const square = value * value;
+ *   return square <= 10n ** 30n ? square : null;
+ * });
+ * // always is 10n ** 15n, and witness is its square
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns the witness (or `{ ok: true, witness }`) if a value satisfies the condition, and `null` (or `{ ok: false }`) otherwise. This function should be monotonic within the range.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`) and an evaluation budget (`maxEvaluations`, `deadline`).
+ * @returns The final bracket and the witness returned at `always`. No value is evaluated only to get the witness.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchBigintWitness = <W>(
+	alwaysEnd: bigint,
+	neverEnd: bigint,
+	predicate: WitnessPredicate<bigint, W>,
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: WitnessOptions<bigint>,
+): WitnessBracket<bigint, W> => {
+	const recorder = createRecorder(predicate);
+	return recorder.withWitness(
+		binarySearchBigintBracket(
+			alwaysEnd,
+			neverEnd,
+			recorder.predicate,
+			safety,
+			options,
+		),
+	);
+};
+
+/**
+ * Like `binarySearchDoubleBracket`, but with a predicate that returns a witness, which is returned with the boundary.
+ * @example
+ * import { binarySearchDoubleWitness } from "binary-search-generalized/witness";
+ * const { always, witness } = binarySearchDoubleWitness(0, 1, (scale) => {
+ *   const plan = compilePlan(scale);
+ *   return { ok: plan.memory <= limit, witness: plan };
+ * });
+ * // witness is the plan compiled at the largest scale that fits in the memory limit
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns the witness (or `{ ok: true, witness }`) if a value satisfies the condition, and `null` (or `{ ok: false }`) otherwise. This function should be monotonic within the range.
+ * @param epsilon - The maximum acceptable error margin for the search, as in `binarySearchDouble`.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check.
+ * @param options - Instrumentation (`onStep`, `trace`) and an evaluation budget (`maxEvaluations`, `deadline`).
+ * @returns The final bracket and the witness returned at `always`. No value is evaluated only to get the witness.
+ * @throws {RangeError} If invalid values or conditions are specified.
+ */
+export const binarySearchDoubleWitness = <W>(
+	alwaysEnd: number,
+	neverEnd: number,
+	predicate: WitnessPredicate<number, W>,
+	/** @default "auto" */
+	epsilon: number | "auto" | "exact" = "auto",
+	/** @default "check" */
+	safety: "check" | "nocheck" = "check",
+	options?: WitnessOptions<number>,
+): WitnessBracket<number, W> => {
+	const recorder = createRecorder(predicate);
+	return recorder.withWitness(
+		binarySearchDoubleBracket(
+			alwaysEnd,
+			neverEnd,
+			recorder.predicate,
+			epsilon,
+			safety,
+			options,
+		),
+	);
+};
+
+/**
+ * Like `binarySearchGeneralizedBracket` with a domain, but with a predicate that returns a witness, which is returned with the boundary.
+ * @example
+ * import { integerDomain } from "binary-search-generalized";
+ * import { binarySearchGeneralizedWitness } from "binary-search-generalized/witness";
+ * const { always, witness } = binarySearchGeneralizedWitness(100, 0, (bins) => pack(items, bins), integerDomain);
+ * // always is the fewest bins that the items fit in, and witness is that packing
+ * @param alwaysEnd - The value that always satisfies the condition and is one end of the range.
+ * @param neverEnd - The value that never satisfies the condition and is the other end of the range.
+ * @param predicate - Returns the witness (or `{ ok: true, witness }`) if a value satisfies the condition, and `null` (or `{ ok: false }`) otherwise. This function should be monotonic within the range.
+ * @param domain - The midpoint, termination rule and order of the values, such as `integerDomain`.
+ * @param safety - Controls runtime checks. Use `"nocheck"` to skip precondition check. `"verify"` works as in `binarySearchGeneralized`.
+ * @param options - Instrumentation (`onStep`, `trace`), an evaluation budget (`maxEvaluations`, `deadline`) and `verifySamples`.
+ * @returns The final bracket and the witness returned at `always`. No value is evaluated only to get the witness.
+ * @throws {RangeError | TypeError} If invalid values or conditions are specified.
+ * @throws {MonotonicityError} In the `"verify"` safety mode, if two evaluated values contradict the monotonicity of the predicate.
+ */
+export const binarySearchGeneralizedWitness = <T, W>(
+	alwaysEnd: T,
+	neverEnd: T,
+	predicate: WitnessPredicate<T, W>,
+	domain: SearchDomain<T>,
+	/** @default "check" */
+	safety: "check" | "nocheck" | "verify" = "check",
+	options?: WitnessOptions<T>,
+): WitnessBracket<T, W> => {
+	const recorder = createRecorder(
+		predicate,
+		// Samples lie farther from neverEnd than the values they are sampled between
+		(value, latest) =>
+			Math.sign(domain.compare(value, latest)) ===
+			Math.sign(domain.compare(neverEnd, latest)),
+	);
+	return recorder.withWitness(
+		binarySearchGeneralizedBracket(
+			alwaysEnd,
+			neverEnd,
+			recorder.predicate,
+			domain,
+			safety,
+			options,
+		),
+	);
+};
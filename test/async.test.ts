@@ -0,0 +1,201 @@
+import { describe, expect, it } from "bun:test";
+import {
+	binarySearchAsync,
+	binarySearchBigintAsync,
+	binarySearchDoubleAsync,
+	binarySearchGeneralizedAsync,
+	binarySearchIntegerAsync,
+} from "../src/async.js";
+import { InvalidArgumentError } from "../src/index.js";
+
+const delay = <T>(value: T) =>
+	new Promise<T>((resolve) => setTimeout(() => resolve(value), 0));
+
+describe("binarySearchIntegerAsync", () => {
+	it("should find the correct integer value", async () => {
+		const result = await binarySearchIntegerAsync(0, 100, (value) =>
+			delay(value * value <= 180),
+		);
+		expect(result).toBe(13);
+	});
+
+	it("should work with descending order", async () => {
+		const result = await binarySearchIntegerAsync(100, 0, (value) =>
+			delay(value * value > 180),
+		);
+		expect(result).toBe(14);
+	});
+
+	it("accepts synchronous predicates", async () => {
+		const result = await binarySearchIntegerAsync(
+			0,
+			100,
+			(value) => value * value <= 180,
+		);
+		expect(result).toBe(13);
+	});
+
+	it("rejects when alwaysEnd does not satisfy condition", async () => {
+		await expect(
+			binarySearchIntegerAsync(10, 20, async (v) => v < 5),
+		).rejects.toThrow(new RangeError("alwaysEnd must satisfy the condition"));
+	});
+
+	it("rejects when neverEnd satisfies condition", async () => {
+		await expect(
+			binarySearchIntegerAsync(0, 10, async (v) => v < 20),
+		).rejects.toThrow(
+			new RangeError("neverEnd must not satisfy the condition"),
+		);
+	});
+
+	it("rejects when endpoints are not safe integers", async () => {
+		await expect(
+			binarySearchIntegerAsync(2 ** 53, 0, async (v) => v > 0),
+		).rejects.toThrow("alwaysEnd and neverEnd must be safe integers");
+	});
+
+	it("should not reject for unsafe parameter check", async () => {
+		const result = await binarySearchIntegerAsync(
+			10,
+			20,
+			async (v) => v < 5,
+			"nocheck",
+		);
+		expect(result).toBe(10);
+	});
+
+	it("stops evaluating once the signal is aborted", async () => {
+		const controller = new AbortController();
+		const probes: number[] = [];
+		const promise = binarySearchIntegerAsync(
+			0,
+			1000,
+			async (value) => {
+				probes.push(value);
+				if (probes.length === 4) controller.abort(new Error("cancelled"));
+				return delay(value <= 700);
+			},
+			"check",
+			controller.signal,
+		);
+		await expect(promise).rejects.toThrow("cancelled");
+		expect(probes).toHaveLength(4);
+	});
+
+	it("rejects immediately with an already aborted signal", async () => {
+		let calls = 0;
+		await expect(
+			binarySearchIntegerAsync(
+				0,
+				100,
+				async (value) => {
+					calls++;
+					return value <= 50;
+				},
+				"check",
+				AbortSignal.abort(),
+			),
+		).rejects.toThrow();
+		expect(calls).toBe(0);
+	});
+});
+
+describe("binarySearchBigintAsync", () => {
+	it("should find the correct bigint value", async () => {
+		const result = await binarySearchBigintAsync(100n, 0n, (value) =>
+			delay(2n ** value >= 10n ** 21n),
+		);
+		expect(result).toBe(70n);
+	});
+});
+
+describe("binarySearchDoubleAsync", () => {
+	it("uses auto epsilon", async () => {
+		const result = await binarySearchDoubleAsync(0, 10, async (v) => v <= 7.3);
+		expect(result).toBe(7.3);
+	});
+
+	it("uses an explicit epsilon", async () => {
+		const result = await binarySearchDoubleAsync(
+			Math.PI / 2,
+			0,
+			async (value) => Math.sin(value) >= 0.5,
+			0.0005,
+		);
+		expect(result).toBeCloseTo(Math.PI / 6, 3);
+	});
+
+	it("rejects infinite endpoints with auto epsilon", async () => {
+		await expect(
+			binarySearchDoubleAsync(Number.POSITIVE_INFINITY, 0, async (v) => v > 1),
+		).rejects.toThrow("alwaysEnd and neverEnd must be finite numbers");
+		// The same error as binarySearchDouble
+		await expect(
+			binarySearchDoubleAsync(Number.POSITIVE_INFINITY, 0, async (v) => v > 1),
+		).rejects.toBeInstanceOf(InvalidArgumentError);
+	});
+});
+
+describe("binarySearchAsync", () => {
+	it("should find the correct value with a custom midpoint", async () => {
+		const result = await binarySearchAsync(
+			0,
+			100,
+			async (v) => v * v <= 180,
+			(low, high) => Math.floor(low / 4 + high / 4) * 2,
+			2,
+		);
+		expect(result).toBe(12);
+	});
+
+	it("strict: rejects when midpoint does not converge", async () => {
+		await expect(
+			binarySearchAsync(
+				0n,
+				100n,
+				async (v) => v <= 50n,
+				(l, _h) => l,
+				1n,
+				"strict",
+			),
+		).rejects.toThrow(/midpoint function did not converge/);
+	});
+
+	it("rejects when epsilon is not positive", async () => {
+		await expect(
+			binarySearchAsync(
+				0,
+				1,
+				async (v) => v < 0.5,
+				(l, h) => l / 2 + h / 2,
+				0,
+			),
+		).rejects.toThrow("epsilon must be positive");
+	});
+});
+
+describe("binarySearchGeneralizedAsync", () => {
+	it("should find the boundary with bigints", async () => {
+		const result = await binarySearchGeneralizedAsync(
+			0n,
+			10n ** 9n,
+			(v) => delay(v < 100_000_000n),
+			(a, b) => (a + b) / 2n,
+			(a, b) => b - a > 1n,
+		);
+		expect(result).toBe(99_999_999n);
+	});
+
+	it("rejects when alwaysEnd does not satisfy the condition", async () => {
+		await expect(
+			binarySearchGeneralizedAsync<number>(
+				0,
+				10,
+				async (v) => v >= 5,
+				(a, b) => Math.floor(a + (b - a) / 2),
+				(a, b) => Math.abs(a - b) > 1,
+			),
+		).rejects.toThrow(new RangeError("alwaysEnd must satisfy the condition"));
+	});
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "bun:test";
+import {
+	batchSearch,
+	batchSearchBigint,
+	batchSearchDouble,
+	batchSearchInteger,
+} from "../src/batch.js";
+import {
+	binarySearchDouble,
+	binarySearchInteger,
+	InvalidArgumentError,
+	PreconditionError,
+	stepDomain,
+} from "../src/index.js";
+
+describe("batchSearchInteger", () => {
+	const cost = (units: number) => units * units + 3 * units;
+	const budgets = Array.from({ length: 1000 }, (_, i) => (i * 7919) % 100_000);
+
+	it("matches one search per query, in query order", () => {
+		const results = batchSearchInteger(
+			0,
+			1000,
+			cost,
+			budgets,
+			(c, budget) => c <= budget,
+		);
+		expect(results).toStrictEqual(
+			budgets.map((budget) =>
+				binarySearchInteger(0, 1000, (units) => cost(units) <= budget),
+			),
+		);
+	});
+
+	it("evaluates the oracle at most once per value", () => {
+		const probed = new Map<number, number>();
+		batchSearchInteger(
+			0,
+			1000,
+			(units) => {
+				probed.set(units, (probed.get(units) ?? 0) + 1);
+				return cost(units);
+			},
+			budgets,
+			(c, budget) => c <= budget,
+		);
+		expect(Math.max(...probed.values())).toBe(1);
+		// Far fewer than one search (about 10 probes) per query
+		expect(probed.size).toBeLessThan(budgets.length);
+	});
+
+	it("searches descending ranges", () => {
+		const targets = [10, 500, 999];
+		expect(
+			batchSearchInteger(
+				1000,
+				0,
+				(value) => value,
+				targets,
+				(value, target) => value >= target,
+			),
+		).toStrictEqual(targets);
+	});
+
+	it("accepts predicates as queries", () => {
+		const predicates = [(c: number) => c < 100, (c: number) => c <= 40];
+		expect(
+			batchSearchInteger(
+				0,
+				10,
+				(value) => value * 10,
+				predicates,
+				(c, query) => query(c),
+			),
+		).toStrictEqual([9, 4]);
+	});
+
+	it("validates the precondition for every query", () => {
+		expect(() =>
+			batchSearchInteger(
+				0,
+				100,
+				(value) => value,
+				[10, -1],
+				(value, target) => value <= target,
+			),
+		).toThrow(PreconditionError);
+		expect(() =>
+			batchSearchInteger(
+				0,
+				100,
+				(value) => value,
+				[10, 100],
+				(value, target) => value <= target,
+			),
+		).toThrow("neverEnd must not satisfy the condition");
+		expect(
+			batchSearchInteger(
+				0,
+				100,
+				() => {
+					throw new Error("not evaluated");
+				},
+				[],
+				() => true,
+			),
+		).toStrictEqual([]);
+		expect(() =>
+			batchSearchInteger(
+				0,
+				0.5,
+				(value) => value,
+				[0],
+				() => true,
+			),
+		).toThrow(InvalidArgumentError);
+	});
+});
+
+describe("batchSearchBigint", () => {
+	it("finds integer square roots", () => {
+		expect(
+			batchSearchBigint(
+				0n,
+				10n ** 20n,
+				(value) => value * value,
+				[2n, 10n ** 30n, 99n],
+				(square, n) => square <= n,
+			),
+		).toStrictEqual([1n, 10n ** 15n, 9n]);
+	});
+});
+
+describe("batchSearchDouble", () => {
+	it("matches binarySearchDouble", () => {
+		const targets = [0.25, 0.5, 0.75];
+		expect(
+			batchSearchDouble(0, Math.PI / 2, Math.sin, targets, (s, t) => s <= t),
+		).toStrictEqual(
+			targets.map((t) =>
+				binarySearchDouble(0, Math.PI / 2, (x) => Math.sin(x) <= t),
+			),
+		);
+		const coarse = batchSearchDouble(
+			0,
+			Math.PI / 2,
+			Math.sin,
+			targets,
+			(s, t) => s <= t,
+			1e-3,
+		);
+		coarse.forEach((angle, i) => {
+			expect(Math.abs(angle - Math.asin(targets[i] ?? 0))).toBeLessThan(1e-3);
+		});
+	});
+});
+
+describe("batchSearch", () => {
+	it("searches any domain", () => {
+		expect(
+			batchSearch(
+				0,
+				100,
+				(value) => value,
+				[15, 33],
+				(value, target) => value <= target,
+				stepDomain(10),
+			),
+		).toStrictEqual([10, 30]);
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+import {
+	bisect,
+	bisectBigint,
+	bisectDouble,
+	bisectInteger,
+} from "../src/bisect.js";
+import {
+	binarySearchBigint,
+	binarySearchDouble,
+	binarySearchInteger,
+} from "../src/index.js";
+
+/** Answers every probe of a search with a predicate */
+const drive = <T>(
+	search: Generator<T, T, boolean>,
+	predicate: (value: T) => boolean,
+	probes: T[] = [],
+): T => {
+	let step = search.next();
+	while (!step.done) {
+		probes.push(step.value);
+		step = search.next(predicate(step.value));
+	}
+	return step.value;
+};
+
+describe("bisect", () => {
+	it("yields probes and returns the boundary", () => {
+		const search = bisect(
+			0,
+			100,
+			(always, never) => Math.floor((always + never) / 2),
+			(always, never) => Math.abs(never - always) > 1,
+			"nocheck",
+		);
+		expect(search.next()).toStrictEqual({ value: 50, done: false });
+		expect(search.next(false)).toStrictEqual({ value: 25, done: false });
+		expect(search.next(true)).toStrictEqual({ value: 37, done: false });
+		let step = search.next(false);
+		while (!step.done) step = search.next(step.value <= 30);
+		expect(step.value).toBe(30);
+	});
+
+	it("yields the endpoints first in check mode", () => {
+		const probes: number[] = [];
+		const result = drive(
+			bisect(
+				10,
+				0,
+				(always, never) => Math.ceil((always + never) / 2),
+				(always, never) => Math.abs(never - always) > 1,
+			),
+			(v) => v >= 7,
+			probes,
+		);
+		expect(result).toBe(7);
+		expect(probes.slice(0, 3)).toStrictEqual([10, 0, 5]);
+	});
+
+	it("throws for endpoint results that violate the precondition", () => {
+		const midpoint = (a: number, b: number) => Math.floor((a + b) / 2);
+		const shouldContinue = (a: number, b: number) => Math.abs(b - a) > 1;
+		const search = bisect(0, 10, midpoint, shouldContinue);
+		search.next();
+		expect(() => search.next(false)).toThrow(
+			"alwaysEnd must satisfy the condition",
+		);
+		const other = bisect(0, 10, midpoint, shouldContinue);
+		other.next();
+		other.next(true);
+		expect(() => other.next(true)).toThrow(
+			"neverEnd must not satisfy the condition",
+		);
+	});
+
+	it("throws when a result is not a boolean", () => {
+		const search = bisectInteger(0, 10, "nocheck");
+		search.next();
+		expect(() =>
+			(search as Generator<number, number, unknown>).next(undefined),
+		).toThrow("the result of a probe must be passed to next() as a boolean");
+	});
+});
+
+describe("presets", () => {
+	it("matches binarySearchInteger", () => {
+		const predicate = (v: number) => v ** 2 <= 180;
+		expect(drive(bisectInteger(0, 100), predicate)).toBe(
+			binarySearchInteger(0, 100, predicate),
+		);
+		expect(drive(bisectInteger(100, 0), (v) => v ** 2 > 180)).toBe(14);
+	});
+
+	it("matches binarySearchBigint", () => {
+		const predicate = (v: bigint) => 2n ** v >= 10n ** 21n;
+		expect(drive(bisectBigint(100n, 0n), predicate)).toBe(
+			binarySearchBigint(100n, 0n, predicate),
+		);
+	});
+
+	it("matches binarySearchDouble", () => {
+		const predicate = (v: number) => Math.sin(v) <= 0.5;
+		expect(drive(bisectDouble(0, Math.PI / 2), predicate)).toBe(
+			binarySearchDouble(0, Math.PI / 2, predicate),
+		);
+		expect(drive(bisectDouble(0, Math.PI / 2, 0.0005), predicate)).toBe(
+			binarySearchDouble(0, Math.PI / 2, predicate, 0.0005),
+		);
+	});
+
+	it("validates the endpoints eagerly", () => {
+		expect(() => bisectInteger(0.5, 10)).toThrow(
+			"alwaysEnd and neverEnd must be safe integers",
+		);
+		expect(() => bisectDouble(0, Number.POSITIVE_INFINITY)).toThrow(
+			"alwaysEnd and neverEnd must be finite numbers",
+		);
+		expect(() => bisectBigint(1n, 1n)).toThrow(RangeError);
+	});
+});
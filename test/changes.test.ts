@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import {
+	findChangePoints,
+	findChangePointsBigint,
+	findChangePointsInteger,
+} from "../src/changes.js";
+import { InvalidArgumentError, stepDomain } from "../src/index.js";
+
+describe("findChangePointsInteger", () => {
+	// The benchmark time of a build: it regressed at build 120, improved at build 300 and regressed again at build 710
+	const history = (build: number) =>
+		build < 120 ? 10 : build < 300 ? 25 : build < 710 ? 12 : 30;
+
+	it("enumerates every change with the values on either side", () => {
+		expect(findChangePointsInteger(0, 999, history)).toStrictEqual([
+			{ last: 119, first: 120, before: 10, after: 25 },
+			{ last: 299, first: 300, before: 25, after: 12 },
+			{ last: 709, first: 710, before: 12, after: 30 },
+		]);
+	});
+
+	it("lists changes in order from `from`", () => {
+		expect(
+			findChangePointsInteger(999, 0, history).map(({ last, first }) => [
+				last,
+				first,
+			]),
+		).toStrictEqual([
+			[710, 709],
+			[300, 299],
+			[120, 119],
+		]);
+	});
+
+	it("prunes segments whose ends agree", () => {
+		let evaluations = 0;
+		const changes = findChangePointsInteger(0, 2 ** 40, (i) => {
+			evaluations++;
+			return i >= 12_345_678_901 ? 1 : 0;
+		});
+		expect(changes).toStrictEqual([
+			{ last: 12_345_678_900, first: 12_345_678_901, before: 0, after: 1 },
+		]);
+		expect(evaluations).toBeLessThanOrEqual(2 + 40);
+	});
+
+	it("compares values with the equality function", () => {
+		const f = (i: number) => ({ major: i < 50 ? 1 : 2, minor: i });
+		expect(
+			findChangePointsInteger(0, 99, f, (a, b) => a.major === b.major),
+		).toStrictEqual([
+			{
+				last: 49,
+				first: 50,
+				before: { major: 1, minor: 49 },
+				after: { major: 2, minor: 50 },
+			},
+		]);
+		expect(findChangePointsInteger(0, 99, () => Number.NaN)).toStrictEqual([]);
+	});
+
+	it("misses changes that return to the same value between two probes", () => {
+		expect(
+			findChangePointsInteger(0, 100, (i) => (i === 51 ? 1 : 0)),
+		).toStrictEqual([]);
+	});
+
+	it("validates the range", () => {
+		expect(() => findChangePointsInteger(0, 1.5, history)).toThrow(
+			InvalidArgumentError,
+		);
+	});
+});
+
+describe("findChangePointsBigint", () => {
+	it("enumerates changes over a huge range", () => {
+		const points = [10n ** 15n, 3n * 10n ** 20n, 10n ** 24n];
+		const version = (offset: bigint) =>
+			points.filter((point) => offset >= point).length;
+		expect(
+			findChangePointsBigint(0n, 10n ** 25n, version).map(({ first }) => first),
+		).toStrictEqual(points);
+	});
+});
+
+describe("findChangePoints", () => {
+	it("searches any domain", () => {
+		expect(
+			findChangePoints(0, 100, (x) => x >= 33, stepDomain(10)),
+		).toStrictEqual([{ last: 30, first: 40, before: false, after: true }]);
+	});
+});
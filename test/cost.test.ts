@@ -0,0 +1,123 @@
+import { describe, expect, it } from "bun:test";
+import {
+	binarySearchBigintCostAware,
+	binarySearchDoubleCostAware,
+	binarySearchIntegerCostAware,
+} from "../src/cost.js";
+import {
+	binarySearchBigint,
+	binarySearchDouble,
+	binarySearchInteger,
+	InvalidArgumentError,
+	PreconditionError,
+} from "../src/index.js";
+
+describe("binarySearchIntegerCostAware", () => {
+	it("returns the same result as binarySearchInteger", () => {
+		for (const boundary of [0, 1, 137, 500, 998, 999]) {
+			const predicate = (value: number) => value <= boundary;
+			expect(
+				binarySearchIntegerCostAware(0, 1000, predicate, (value) => value + 1),
+			).toBe(binarySearchInteger(0, 1000, predicate));
+			expect(
+				binarySearchIntegerCostAware(
+					1000,
+					0,
+					(value) => !predicate(value),
+					(value) => value + 1,
+				),
+			).toBe(boundary + 1);
+		}
+	});
+
+	it("lowers the expected total cost of the probes", () => {
+		// Values from 200 on take 100 times longer to evaluate
+		const cost = (value: number) => (value < 200 ? 1 : 100);
+		let plain = 0;
+		let aware = 0;
+		for (let boundary = 0; boundary < 400; boundary++) {
+			binarySearchInteger(0, 400, (value) => {
+				plain += cost(value);
+				return value <= boundary;
+			});
+			binarySearchIntegerCostAware(
+				0,
+				400,
+				(value) => {
+					aware += cost(value);
+					return value <= boundary;
+				},
+				cost,
+			);
+		}
+		expect(aware).toBeLessThan(plain * 0.9);
+	});
+
+	it("validates the arguments", () => {
+		expect(() =>
+			binarySearchIntegerCostAware(
+				0,
+				100,
+				(value) => value < 50,
+				() => -1,
+			),
+		).toThrow("cost must return a non-negative finite number");
+		expect(() =>
+			binarySearchIntegerCostAware(
+				0,
+				100,
+				(value) => value < 50,
+				() => Number.NaN,
+			),
+		).toThrow(InvalidArgumentError);
+		expect(() =>
+			binarySearchIntegerCostAware(
+				0,
+				0.5,
+				() => true,
+				() => 1,
+			),
+		).toThrow(InvalidArgumentError);
+		expect(() =>
+			binarySearchIntegerCostAware(
+				0,
+				100,
+				() => false,
+				() => 1,
+			),
+		).toThrow(PreconditionError);
+	});
+});
+
+describe("binarySearchBigintCostAware", () => {
+	it("returns the same result as binarySearchBigint", () => {
+		const predicate = (value: bigint) => value * value <= 10n ** 500n;
+		expect(
+			binarySearchBigintCostAware(
+				0n,
+				10n ** 400n,
+				predicate,
+				(value) => value.toString().length,
+			),
+		).toBe(binarySearchBigint(0n, 10n ** 400n, predicate));
+	});
+});
+
+describe("binarySearchDoubleCostAware", () => {
+	it("returns the same result as binarySearchDouble with exact", () => {
+		for (const target of [1e-5, 0.001, 0.3, 0.999]) {
+			const predicate = (step: number) => step <= target;
+			expect(
+				binarySearchDoubleCostAware(1e-6, 1, predicate, (step) => 1 / step),
+			).toBe(binarySearchDouble(1e-6, 1, predicate, "exact"));
+		}
+		expect(
+			binarySearchDoubleCostAware(
+				Number.NEGATIVE_INFINITY,
+				Number.POSITIVE_INFINITY,
+				(value) => value < 2,
+				() => 1,
+			),
+		).toBe(2 - Number.EPSILON);
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import { binarySearchDate } from "../src/date.js";
+
+describe("binarySearchDate", () => {
+	const threshold = new Date("2025-03-17T13:45:12.345Z");
+	const notAfter = (date: Date) => date <= threshold;
+	const start = new Date("2020-01-01T00:00:00Z");
+	const end = new Date("2030-01-01T00:00:00Z");
+
+	it("searches milliseconds by default", () => {
+		expect(binarySearchDate(start, end, notAfter)).toStrictEqual(threshold);
+	});
+
+	it("probes only the boundaries of the granularity", () => {
+		const expected = {
+			second: "2025-03-17T13:45:12.000Z",
+			minute: "2025-03-17T13:45:00.000Z",
+			hour: "2025-03-17T13:00:00.000Z",
+			day: "2025-03-17T00:00:00.000Z",
+			month: "2025-03-01T00:00:00.000Z",
+		} as const;
+		for (const [granularity, result] of Object.entries(expected)) {
+			const probes: Date[] = [];
+			const date = binarySearchDate(
+				start,
+				end,
+				(date) => {
+					probes.push(date);
+					return notAfter(date);
+				},
+				{ granularity: granularity as keyof typeof expected },
+			);
+			expect(date.toISOString()).toBe(result);
+			// Skip the endpoints, which are checked first
+			for (const probe of probes.slice(2)) {
+				const iso = probe.toISOString();
+				if (granularity === "month") expect(iso).toMatch(/-01T00:00:00\.000Z$/);
+				if (granularity === "day") expect(iso).toMatch(/T00:00:00\.000Z$/);
+				if (granularity === "hour") expect(iso).toMatch(/:00:00\.000Z$/);
+			}
+		}
+	});
+
+	it("places day and month boundaries at the UTC offset", () => {
+		// 13:45 UTC is 22:45 at UTC+09:00
+		expect(
+			binarySearchDate(start, end, notAfter, {
+				granularity: "day",
+				utcOffset: 540,
+			}).toISOString(),
+		).toBe("2025-03-16T15:00:00.000Z");
+		expect(
+			binarySearchDate(start, end, notAfter, {
+				granularity: "month",
+				utcOffset: -300,
+			}).toISOString(),
+		).toBe("2025-03-01T05:00:00.000Z");
+	});
+
+	it("works with descending order and epoch milliseconds", () => {
+		const result = binarySearchDate(
+			end.getTime(),
+			start.getTime(),
+			(date) => date > threshold,
+			{ granularity: "month" },
+		);
+		expect(result.toISOString()).toBe("2025-04-01T00:00:00.000Z");
+	});
+
+	it("returns alwaysEnd when no boundary passes", () => {
+		const alwaysEnd = new Date("2025-03-17T10:30:00Z");
+		const result = binarySearchDate(alwaysEnd, end, notAfter, {
+			granularity: "day",
+		});
+		expect(result).toStrictEqual(alwaysEnd);
+		expect(result).not.toBe(alwaysEnd);
+	});
+
+	it("throws for invalid arguments", () => {
+		expect(() => binarySearchDate(new Date(Number.NaN), end, notAfter)).toThrow(
+			"alwaysEnd and neverEnd must be valid dates",
+		);
+		expect(() =>
+			binarySearchDate(start, end, notAfter, { utcOffset: 1440 }),
+		).toThrow("utcOffset must be an integer number of minutes within a day");
+		expect(() =>
+			binarySearchDate(start, end, notAfter, {
+				granularity: "week" as "day",
+			}),
+		).toThrow("unknown granularity: week");
+		expect(() => binarySearchDate(end, start, notAfter)).toThrow(
+			"alwaysEnd must satisfy the condition",
+		);
+	});
+});
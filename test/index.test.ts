@@ -1,14 +1,37 @@
 import { describe, expect, it } from "bun:test";
 import {
+	bigintDomain,
 	binarySearch,
 	binarySearchArray,
 	binarySearchArrayInsertionLeft,
 	binarySearchArrayInsertionRight,
 	binarySearchArrayLast,
 	binarySearchBigint,
+	binarySearchBigintBracket,
+	binarySearchBracket,
 	binarySearchDouble,
+	binarySearchDoubleBracket,
+	binarySearchFloat32,
+	binarySearchFloat32Bracket,
 	binarySearchGeneralized,
+	binarySearchGeneralizedBracket,
 	binarySearchInteger,
+	binarySearchIntegerBracket,
+	createSearchTrace,
+	doubleDomain,
+	EpsilonNotRepresentableError,
+	evenDomain,
+	InvalidArgumentError,
+	InvalidArgumentTypeError,
+	integerDomain,
+	isSearchError,
+	MonotonicityError,
+	NonConvergentMidpointError,
+	PreconditionError,
+	powerOfTwoDomain,
+	type SearchDomain,
+	type SearchStep,
+	stepDomain,
 } from "../src/index.js";
 
 describe("binarySearchInteger", () => {
@@ -176,6 +199,141 @@ describe("binarySearchDouble", () => {
 	});
 });
 
+describe("binarySearchDouble exact mode", () => {
+	/** Returns the next double toward +Infinity */
+	const nextUp = (value: number) => {
+		if (value === 0) return Number.MIN_VALUE;
+		const view = new DataView(new ArrayBuffer(8));
+		view.setFloat64(0, value);
+		view.setBigInt64(0, view.getBigInt64(0) + (value > 0 ? 1n : -1n));
+		return view.getFloat64(0);
+	};
+
+	it("ends on adjacent doubles", () => {
+		const { always, never, iterations } = binarySearchDoubleBracket(
+			0,
+			Math.PI / 2,
+			(v) => Math.sin(v) <= 0.5,
+			"exact",
+		);
+		expect(Math.sin(always)).toBeLessThanOrEqual(0.5);
+		expect(Math.sin(never)).toBeGreaterThan(0.5);
+		expect(nextUp(always)).toBe(never);
+		expect(iterations).toBeLessThanOrEqual(64);
+	});
+
+	it("crosses zero", () => {
+		const threshold = -1e-310;
+		const { always, never } = binarySearchDoubleBracket(
+			-1,
+			1,
+			(v) => v <= threshold,
+			"exact",
+		);
+		expect(always).toBe(threshold);
+		expect(never).toBe(nextUp(threshold));
+		expect(binarySearchDouble(1, -1, (v) => v > 0, "exact")).toBe(
+			Number.MIN_VALUE,
+		);
+	});
+
+	it("accepts infinite endpoints and takes at most 64 steps", () => {
+		for (const threshold of [-Number.MAX_VALUE, -1, 0, 1e-300, 42, 1e308]) {
+			const { always, never, iterations } = binarySearchDoubleBracket(
+				-Infinity,
+				Infinity,
+				(v) => v <= threshold,
+				"exact",
+			);
+			expect(always).toBe(threshold);
+			expect(never).toBe(nextUp(threshold));
+			expect(iterations).toBeLessThanOrEqual(64);
+		}
+		expect(binarySearchDouble(0, Infinity, (v) => v < Infinity, "exact")).toBe(
+			Number.MAX_VALUE,
+		);
+	});
+
+	it("throws for NaN endpoints", () => {
+		expect(() =>
+			binarySearchDouble(0, Number.NaN, () => true, "exact"),
+		).toThrow("alwaysEnd and neverEnd must not be NaN");
+	});
+});
+
+describe("binarySearchFloat32", () => {
+	/** Returns the next float32 value toward +Infinity */
+	const nextUp = (value: number) => {
+		const view = new DataView(new ArrayBuffer(4));
+		view.setFloat32(0, value);
+		view.setInt32(0, view.getInt32(0) + (value >= 0 ? 1 : -1));
+		return view.getFloat32(0);
+	};
+
+	it("ends on adjacent float32 values", () => {
+		const { always, never } = binarySearchFloat32Bracket(
+			0,
+			1,
+			(v) => v * 3 <= 1,
+		);
+		expect(always).toBe(0.3333333134651184);
+		expect(never).toBe(Math.fround(1 / 3));
+		expect(nextUp(always)).toBe(never);
+	});
+
+	it("only probes float32 values", () => {
+		const probes: number[] = [];
+		binarySearchFloat32(-1000, 1000, (v) => {
+			probes.push(v);
+			return v <= Math.PI;
+		});
+		expect(probes.every((v) => Math.fround(v) === v)).toBe(true);
+		expect(probes.length).toBeLessThanOrEqual(34);
+	});
+
+	it("crosses zero and works with descending order", () => {
+		const threshold = Math.fround(-1e-40);
+		expect(binarySearchFloat32(-1, 1, (v) => v <= threshold)).toBe(threshold);
+		const result = binarySearchFloat32(1, -1, (v) => v > threshold);
+		expect(nextUp(threshold)).toBe(result);
+	});
+
+	it("stops at the epsilon", () => {
+		const { always, never } = binarySearchFloat32Bracket(
+			0,
+			100,
+			(v) => v <= 37.3,
+			0.01,
+		);
+		expect(always).toBeLessThanOrEqual(37.3);
+		expect(never).toBeGreaterThan(37.3);
+		expect(never - always).toBeLessThanOrEqual(0.01);
+	});
+
+	it("ends on adjacent values when the epsilon is below float32 precision", () => {
+		const { always, never } = binarySearchFloat32Bracket(
+			1,
+			2,
+			(v) => v <= 1.5,
+			1e-12,
+		);
+		expect(always).toBe(1.5);
+		expect(nextUp(always)).toBe(never);
+	});
+
+	it("throws for values that are not float32", () => {
+		expect(() => binarySearchFloat32(0, 0.1, () => true)).toThrow(
+			"alwaysEnd and neverEnd must be finite float32 values",
+		);
+		expect(() => binarySearchFloat32(0, Infinity, () => true)).toThrow(
+			RangeError,
+		);
+		expect(() =>
+			binarySearchFloat32(0, Math.fround(0.1), (v) => v < 0.05),
+		).not.toThrow();
+	});
+});
+
 describe("binarySearchArray", () => {
 	it("should find the index of a target in a number array", () => {
 		const arr = [2, 5, 8, 12, 16, 23, 38, 56, 72, 91];
@@ -688,3 +846,704 @@ describe("binarySearchGeneralized", () => {
 		expect(Number.isFinite(val)).toBe(true);
 	});
 });
+
+describe("search domains", () => {
+	const square = (value: number) => value ** 2 <= 180;
+
+	it("match the presets", () => {
+		expect(binarySearchGeneralized(0, 100, square, integerDomain)).toBe(
+			binarySearchInteger(0, 100, square),
+		);
+		expect(
+			binarySearchGeneralized(100, 0, (v) => v ** 2 >= 180, integerDomain),
+		).toBe(14);
+		expect(
+			binarySearchGeneralizedBracket(
+				0n,
+				10n ** 20n,
+				(v) => v ** 2n <= 10n ** 30n,
+				bigintDomain,
+			),
+		).toStrictEqual(
+			binarySearchBigintBracket(0n, 10n ** 20n, (v) => v ** 2n <= 10n ** 30n),
+		);
+		expect(
+			binarySearchGeneralized(0, 2, (v) => v ** 2 <= 2, doubleDomain),
+		).toBe(binarySearchDouble(0, 2, (v) => v ** 2 <= 2));
+	});
+
+	it("search grids", () => {
+		expect(binarySearchGeneralized(0, 100, square, evenDomain)).toBe(12);
+		expect(binarySearchGeneralized(1, 100, square, stepDomain(3, 1))).toBe(13);
+		expect(binarySearchGeneralized(0, 100, square, stepDomain(0.25))).toBe(
+			13.25,
+		);
+		expect(() => stepDomain(0)).toThrow(InvalidArgumentError);
+		for (const end of [0.3, 0.7, 2.3]) {
+			expect(() => stepDomain(0.1).validate?.(0, end)).not.toThrow();
+		}
+		expect(
+			binarySearchGeneralized(0, 0.3, (v) => v < 0.15, stepDomain(0.1)),
+		).toBeCloseTo(0.1, 15);
+		expect(() => stepDomain(0.1).validate?.(0, 0.35)).toThrow(
+			"alwaysEnd and neverEnd must lie on the grid",
+		);
+		expect(() => binarySearchGeneralized(0, 99, square, evenDomain)).toThrow(
+			"alwaysEnd and neverEnd must lie on the grid",
+		);
+	});
+
+	it("search powers of two", () => {
+		const probes: number[] = [];
+		const result = binarySearchGeneralized(
+			2 ** -10,
+			2 ** 30,
+			(size) => {
+				probes.push(size);
+				return size <= 100_000;
+			},
+			powerOfTwoDomain,
+		);
+		expect(result).toBe(65536);
+		for (const probe of probes) {
+			expect(Number.isInteger(Math.log2(probe))).toBe(true);
+		}
+		expect(
+			binarySearchGeneralized(
+				2 ** -1074,
+				1,
+				(v) => v <= 2 ** -1000,
+				powerOfTwoDomain,
+			),
+		).toBe(2 ** -1000);
+		expect(() =>
+			binarySearchGeneralized(1, 3, (v) => v < 2, powerOfTwoDomain),
+		).toThrow("alwaysEnd and neverEnd must be powers of two");
+	});
+
+	it("validate the endpoints in every safety mode", () => {
+		expect(() =>
+			binarySearchGeneralized(0.5, 100, square, integerDomain, "nocheck"),
+		).toThrow("alwaysEnd and neverEnd must be safe integers");
+		expect(() =>
+			binarySearchGeneralized(
+				0,
+				Number.POSITIVE_INFINITY,
+				square,
+				doubleDomain,
+			),
+		).toThrow(InvalidArgumentError);
+		expect(() =>
+			binarySearchGeneralized(
+				0 as unknown as bigint,
+				10n,
+				(v) => v < 5n,
+				bigintDomain,
+			),
+		).toThrow(InvalidArgumentTypeError);
+	});
+
+	it("check midpoints against the order in the verify mode", () => {
+		const broken: SearchDomain<number> = {
+			...integerDomain,
+			midpoint: (always) => always,
+		};
+		expect(() =>
+			binarySearchGeneralized(0, 100, square, broken, "verify"),
+		).toThrow(NonConvergentMidpointError);
+		expect(
+			binarySearchGeneralized(0, 100, square, integerDomain, "verify", {
+				verifySamples: 10,
+			}),
+		).toBe(13);
+	});
+
+	it("accept options", () => {
+		const trace = createSearchTrace<number>();
+		binarySearchGeneralized(0, 100, square, integerDomain, "check", { trace });
+		expect(trace.iterations).toBe(7);
+	});
+});
+
+describe("search tracing", () => {
+	it("reports every step of binarySearchInteger", () => {
+		const steps: SearchStep<number>[] = [];
+		const trace = createSearchTrace<number>();
+		const result = binarySearchInteger(0, 100, (v) => v * v <= 180, "check", {
+			onStep: (step) => steps.push(step),
+			trace,
+		});
+		expect(result).toBe(13);
+		expect(steps[0]).toStrictEqual({
+			iteration: 1,
+			low: 0,
+			high: 100,
+			probe: 50,
+			result: false,
+		});
+		expect(steps.map((s) => s.iteration)).toStrictEqual([1, 2, 3, 4, 5, 6, 7]);
+		expect(trace.iterations).toBe(7);
+		// 7 probes and 2 endpoint checks
+		expect(trace.evaluations).toBe(9);
+		expect(trace.history).toHaveLength(8);
+		expect(trace.history[0]).toStrictEqual({ low: 0, high: 100 });
+		expect(trace.bracket).toStrictEqual({ low: 13, high: 14 });
+	});
+
+	it("keeps numeric bounds ordered in descending searches", () => {
+		const trace = createSearchTrace<number>();
+		binarySearchInteger(100, 0, (v) => v * v > 180, "nocheck", { trace });
+		expect(trace.evaluations).toBe(trace.iterations);
+		expect(trace.bracket).toStrictEqual({ low: 13, high: 14 });
+		for (const { low, high } of trace.history) {
+			expect(low).toBeLessThan(high);
+		}
+	});
+
+	it("traces strict searches over bigints", () => {
+		const trace = createSearchTrace<bigint>();
+		const result = binarySearch(
+			0n,
+			100n,
+			(v) => v * v <= 180n,
+			(l, h) => (l + h) / 2n,
+			1n,
+			"strict",
+			{ trace },
+		);
+		expect(result).toBe(13n);
+		expect(trace.bracket).toStrictEqual({ low: 13n, high: 14n });
+	});
+
+	it("reports always/never bounds for binarySearchGeneralized", () => {
+		const steps: SearchStep<number>[] = [];
+		const trace = createSearchTrace<number>();
+		const result = binarySearchGeneralized<number>(
+			100,
+			0,
+			(v) => v * v >= 180,
+			(a, b) => Math.floor(a + (b - a) / 2),
+			(a, b) => Math.abs(a - b) > 1,
+			"check",
+			{ onStep: (step) => steps.push(step), trace },
+		);
+		expect(result).toBe(14);
+		expect(steps[0]).toMatchObject({ low: 100, high: 0, probe: 50 });
+		expect(trace.bracket).toStrictEqual({ low: 14, high: 13 });
+		expect(trace.evaluations).toBe(trace.iterations + 2);
+	});
+
+	it("traces binarySearchDouble with auto epsilon", () => {
+		const trace = createSearchTrace<number>();
+		const result = binarySearchDouble(0, 10, (v) => v <= 7.3, "auto", "check", {
+			trace,
+		});
+		expect(result).toBe(7.3);
+		expect(trace.bracket?.low).toBe(7.3);
+	});
+
+	it("traces array searches over indices, including edge case checks", () => {
+		const trace = createSearchTrace<number>();
+		const index = binarySearchArray([1, 2, 2, 2, 3], 2, { trace });
+		expect(index).toBe(1);
+		expect(trace.iterations).toBe(2);
+		expect(trace.evaluations).toBe(3);
+
+		const compared = createSearchTrace<number>();
+		const objects = [{ id: 1 }, { id: 2 }, { id: 3 }];
+		expect(
+			binarySearchArrayLast(objects, { id: 1 }, (a, b) => a.id - b.id, {
+				trace: compared,
+			}),
+		).toBe(0);
+		expect(compared.bracket).toStrictEqual({ low: 0, high: 1 });
+	});
+
+	it("traces insertion searches", () => {
+		const steps: SearchStep<number>[] = [];
+		const index = binarySearchArrayInsertionRight([1, 3, 3, 5], 3, undefined, {
+			onStep: (step) => steps.push(step),
+		});
+		expect(index).toBe(3);
+		expect(steps.length).toBeGreaterThan(0);
+		for (const step of steps) {
+			expect(step.probe).toBeGreaterThan(step.low);
+			expect(step.probe).toBeLessThan(step.high);
+		}
+	});
+});
+
+describe("bracket variants", () => {
+	it("returns the bracket of binarySearchInteger", () => {
+		expect(binarySearchIntegerBracket(0, 100, (v) => v ** 2 <= 180)).toEqual({
+			always: 13,
+			never: 14,
+			iterations: 7,
+		});
+		const descending = binarySearchIntegerBracket(100, 0, (v) => v ** 2 > 180);
+		expect(descending.always).toBe(14);
+		expect(descending.never).toBe(13);
+	});
+
+	it("returns a bracket of width one when the ends are adjacent", () => {
+		expect(binarySearchIntegerBracket(5, 6, () => true, "nocheck")).toEqual({
+			always: 5,
+			never: 6,
+			iterations: 0,
+		});
+	});
+
+	it("returns the bracket of binarySearchBigint", () => {
+		const { always, never } = binarySearchBigintBracket(
+			100n,
+			0n,
+			(v) => 2n ** v >= 10n ** 21n,
+		);
+		expect(always).toBe(70n);
+		expect(never).toBe(69n);
+	});
+
+	it("returns the bracket of binarySearch with a custom epsilon", () => {
+		const bracket = binarySearchBracket(
+			0,
+			100,
+			(v) => v ** 2 <= 180,
+			(low, high) => Math.floor(low / 4 + high / 4) * 2,
+			2,
+		);
+		expect(bracket.always).toBe(12);
+		expect(bracket.never).toBe(14);
+		expect(bracket.iterations).toBeGreaterThan(0);
+	});
+
+	it("returns adjacent doubles with auto epsilon", () => {
+		const { always, never } = binarySearchDoubleBracket(
+			0,
+			Math.PI / 2,
+			(v) => Math.sin(v) <= 0.5,
+		);
+		expect(Math.sin(always)).toBeLessThanOrEqual(0.5);
+		expect(Math.sin(never)).toBeGreaterThan(0.5);
+		expect(never - always).toBe(Number.EPSILON * 0.5);
+	});
+
+	it("returns a bracket narrower than epsilon for doubles", () => {
+		const { always, never } = binarySearchDoubleBracket(
+			10,
+			0,
+			(v) => v > Math.E,
+			0.001,
+		);
+		expect(always).toBeGreaterThan(Math.E);
+		expect(never).toBeLessThanOrEqual(Math.E);
+		expect(always - never).toBeLessThanOrEqual(0.001);
+	});
+
+	it("returns the bracket of binarySearchGeneralized", () => {
+		const bracket = binarySearchGeneralizedBracket(
+			0n,
+			1000n,
+			(v) => v * v <= 500n,
+			(always, never) => (always + never) / 2n,
+			(always, never) => never - always > 1n,
+		);
+		expect(bracket).toEqual({ always: 22n, never: 23n, iterations: 10 });
+	});
+
+	it("matches the boundary and iteration count of the plain searches", () => {
+		const trace = createSearchTrace<number>();
+		const value = binarySearchInteger(-1000, 1000, (v) => v < 321, "check", {
+			trace,
+		});
+		const bracket = binarySearchIntegerBracket(-1000, 1000, (v) => v < 321);
+		expect(bracket.always).toBe(value);
+		expect(bracket.iterations).toBe(trace.iterations);
+	});
+});
+
+describe("memoization and evaluation budget", () => {
+	it("shares cached results between the endpoint checks and the loop", () => {
+		const calls: number[] = [];
+		const predicate = (v: number) => {
+			calls.push(v);
+			return v <= 3;
+		};
+		// The midpoints of [0, 8] visit 4, 2, 3; the endpoint checks are cached
+		const store = new Map<unknown, boolean>([
+			[0, true],
+			[8, false],
+		]);
+		expect(
+			binarySearchInteger(0, 8, predicate, "check", { cache: { store } }),
+		).toBe(3);
+		expect(calls).toStrictEqual([4, 2, 3]);
+		expect(store.get(4)).toBe(false);
+
+		calls.length = 0;
+		expect(
+			binarySearchInteger(0, 8, predicate, "check", { cache: { store } }),
+		).toBe(3);
+		expect(calls).toStrictEqual([]);
+	});
+
+	it("uses the key function for non-primitive values", () => {
+		let calls = 0;
+		const store = new Map<unknown, boolean>();
+		const search = () =>
+			binarySearchGeneralized(
+				{ n: 0 },
+				{ n: 100 },
+				(v) => {
+					calls++;
+					return v.n <= 42;
+				},
+				(a, b) => ({ n: Math.floor((a.n + b.n) / 2) }),
+				(a, b) => b.n - a.n > 1,
+				"check",
+				{ cache: { key: (v) => v.n, store } },
+			);
+		expect(search()).toStrictEqual({ n: 42 });
+		const first = calls;
+		expect(search()).toStrictEqual({ n: 42 });
+		expect(calls).toBe(first);
+	});
+
+	it("does not count cache hits as evaluations", () => {
+		const cache = { store: new Map<unknown, boolean>() };
+		binarySearchInteger(0, 100, (v) => v <= 50, "check", { cache });
+		const trace = createSearchTrace<number>();
+		const bracket = binarySearchIntegerBracket(
+			0,
+			100,
+			(v) => v <= 50,
+			"check",
+			{ cache, maxEvaluations: 0, trace },
+		);
+		expect(bracket).toEqual({ always: 50, never: 51, iterations: 6 });
+		expect(trace.evaluations).toBe(0);
+	});
+
+	it("stops at maxEvaluations with the best bracket so far", () => {
+		let calls = 0;
+		const bracket = binarySearchIntegerBracket(
+			0,
+			1024,
+			(v) => {
+				calls++;
+				return v <= 700;
+			},
+			"check",
+			{ maxEvaluations: 5 },
+		);
+		expect(calls).toBe(5);
+		expect(bracket).toEqual({
+			always: 640,
+			never: 768,
+			iterations: 3,
+			stopped: "maxEvaluations",
+		});
+		expect(
+			binarySearchInteger(0, 1024, (v) => v <= 700, "nocheck", {
+				maxEvaluations: 3,
+			}),
+		).toBe(640);
+	});
+
+	it("stops at the deadline", () => {
+		let calls = 0;
+		const bracket = binarySearchDoubleBracket(
+			0,
+			10,
+			(v) => {
+				calls++;
+				return v <= Math.PI;
+			},
+			"auto",
+			"nocheck",
+			{ deadline: new Date(Date.now() - 1) },
+		);
+		expect(calls).toBe(0);
+		expect(bracket).toEqual({
+			always: 0,
+			never: 10,
+			iterations: 0,
+			stopped: "deadline",
+		});
+	});
+
+	it("stops binarySearchBracket with a custom epsilon", () => {
+		const bracket = binarySearchBracket(
+			0n,
+			1000n,
+			(v) => v * v <= 500n,
+			(low, high) => (low + high) / 2n,
+			1n,
+			"strict",
+			{ maxEvaluations: 4 },
+		);
+		expect(bracket.stopped).toBe("maxEvaluations");
+		expect(bracket.iterations).toBe(2);
+		expect(bracket.always * bracket.always <= 500n).toBe(true);
+		expect(bracket.never * bracket.never > 500n).toBe(true);
+	});
+
+	it("throws for a negative or non-integer budget", () => {
+		for (const maxEvaluations of [-1, 2.5, Number.POSITIVE_INFINITY, NaN]) {
+			expect(() =>
+				binarySearchInteger(0, 10, (v) => v < 5, "check", { maxEvaluations }),
+			).toThrow("maxEvaluations must be a non-negative integer");
+		}
+	});
+});
+
+describe("verify safety mode", () => {
+	const midpoint = (low: number, high: number) => Math.floor((low + high) / 2);
+
+	it("returns the same result for a monotonic predicate", () => {
+		const predicate = (v: number) => v ** 2 <= 180;
+		expect(
+			binarySearch(0, 100, predicate, midpoint, 1, "verify", {
+				verifySamples: 50,
+			}),
+		).toBe(13);
+		expect(
+			binarySearchGeneralized(
+				100,
+				0,
+				(v) => v ** 2 > 180,
+				midpoint,
+				(always, never) => Math.abs(never - always) > 1,
+				"verify",
+				{ verifySamples: 50 },
+			),
+		).toBe(14);
+	});
+
+	it("throws a MonotonicityError with two witnesses found by sampling", () => {
+		// Not monotonic: 10 does not satisfy the condition, but 13 does
+		const predicate = (v: number) => v ** 2 <= 180 && v !== 10;
+		expect(binarySearch(0, 100, predicate, midpoint, 1, "check")).toBe(13);
+		let error: unknown;
+		try {
+			binarySearch(0, 100, predicate, midpoint, 1, "verify", {
+				verifySamples: 100,
+			});
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(MonotonicityError);
+		expect(error).toBeInstanceOf(RangeError);
+		const { unsatisfied, satisfied } = error as MonotonicityError<number>;
+		expect(unsatisfied).toBe(10);
+		expect(predicate(satisfied)).toBe(true);
+		expect(satisfied).toBeGreaterThan(10);
+	});
+
+	it("finds contradictions on the never side", () => {
+		const predicate = (v: bigint) => v < 5n || v === 77n;
+		let error: unknown;
+		try {
+			binarySearchGeneralized<bigint>(
+				0n,
+				100n,
+				predicate,
+				(always, never) => (always + never) / 2n,
+				(always, never) => never - always > 1n,
+				"verify",
+				{ verifySamples: 100 },
+			);
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(MonotonicityError);
+		const { unsatisfied, satisfied } = error as MonotonicityError<bigint>;
+		expect(satisfied).toBe(77n);
+		expect(predicate(unsatisfied)).toBe(false);
+		expect(unsatisfied < 77n).toBe(true);
+	});
+
+	it("checks the endpoints and midpoints like strict mode", () => {
+		expect(() =>
+			binarySearch(0, 100, () => true, midpoint, 1, "verify"),
+		).toThrow("neverEnd must not satisfy the condition");
+		expect(() =>
+			binarySearch(
+				0,
+				100,
+				(v) => v < 50,
+				() => 0,
+				1,
+				"verify",
+			),
+		).toThrow("midpoint function did not converge");
+	});
+
+	it("does not sample past the evaluation budget", () => {
+		let evaluations = 0;
+		const predicate = (v: number) => {
+			evaluations++;
+			return v < 50;
+		};
+		expect(
+			binarySearchBracket(0, 100, predicate, midpoint, 1, "verify", {
+				maxEvaluations: 4,
+				verifySamples: 100,
+			}).stopped,
+		).toBe("maxEvaluations");
+		expect(evaluations).toBe(4);
+		evaluations = 0;
+		expect(
+			binarySearchGeneralizedBracket(
+				0,
+				100,
+				predicate,
+				midpoint,
+				(always, never) => never - always > 1,
+				"verify",
+				{ maxEvaluations: 4, verifySamples: 100 },
+			).stopped,
+		).toBe("maxEvaluations");
+		expect(evaluations).toBe(4);
+	});
+
+	it("throws for an invalid number of samples", () => {
+		expect(() =>
+			binarySearch(0, 100, (v) => v < 50, midpoint, 1, "verify", {
+				verifySamples: -1,
+			}),
+		).toThrow("verifySamples must be a non-negative integer");
+	});
+});
+
+describe("typed errors", () => {
+	/** Returns the error thrown by a function */
+	const caught = (fn: () => unknown): unknown => {
+		try {
+			fn();
+		} catch (error) {
+			return error;
+		}
+		throw new Error("expected the function to throw");
+	};
+
+	it("reports precondition violations with the endpoint", () => {
+		const never = caught(() => binarySearchInteger(15, 10, (v) => v > 5));
+		expect(never).toBeInstanceOf(PreconditionError);
+		expect(never).toBeInstanceOf(RangeError);
+		expect(never).toMatchObject({
+			name: "PreconditionError",
+			code: "PRECONDITION_VIOLATION",
+			end: "neverEnd",
+			value: 10,
+			message: "neverEnd must not satisfy the condition",
+		});
+
+		const always = caught(() =>
+			binarySearchGeneralized(
+				0n,
+				10n,
+				() => false,
+				(a, b) => (a + b) / 2n,
+				(a, b) => b - a > 1n,
+			),
+		);
+		expect(always).toMatchObject({ end: "alwaysEnd", value: 0n });
+	});
+
+	it("reports non-convergent midpoints with the bounds and the step", () => {
+		const error = caught(() =>
+			binarySearch(
+				0,
+				100,
+				(v) => v <= 30,
+				(low) => low,
+				1,
+				"strict",
+			),
+		);
+		expect(error).toBeInstanceOf(NonConvergentMidpointError);
+		expect(error).toMatchObject({
+			code: "NON_CONVERGENT_MIDPOINT",
+			midpoint: 0,
+			low: 0,
+			high: 100,
+			iteration: 1,
+			message: "midpoint function did not converge: got 0 with 0 and 100",
+		});
+	});
+
+	it("reports epsilons that are not representable", () => {
+		const error = caught(() =>
+			binarySearchDouble(1e20, 1e20 + 1e6, () => true, 1),
+		);
+		expect(error).toBeInstanceOf(EpsilonNotRepresentableError);
+		expect(error).toMatchObject({
+			code: "EPSILON_NOT_REPRESENTABLE",
+			epsilon: 1,
+			alwaysEnd: 1e20,
+		});
+	});
+
+	it("reports invalid arguments with their names and built-in types", () => {
+		const range = caught(() => binarySearchDouble(0, 1, () => true, -1));
+		expect(range).toBeInstanceOf(InvalidArgumentError);
+		expect(range).toBeInstanceOf(RangeError);
+		expect(range).toMatchObject({
+			code: "INVALID_ARGUMENT",
+			argumentNames: ["epsilon"],
+		});
+
+		const type = caught(() =>
+			binarySearch(
+				0,
+				10,
+				() => true,
+				(a) => a,
+				1n as unknown as number,
+			),
+		);
+		expect(type).toBeInstanceOf(InvalidArgumentTypeError);
+		expect(type).toBeInstanceOf(TypeError);
+		expect(type).toMatchObject({
+			code: "INVALID_ARGUMENT_TYPE",
+			argumentNames: ["alwaysEnd", "neverEnd", "epsilon"],
+		});
+	});
+
+	it("reports invalid options with typed errors", () => {
+		expect(
+			caught(() =>
+				binarySearchInteger(0, 100, (v) => v < 50, "check", {
+					maxEvaluations: -1,
+				}),
+			),
+		).toMatchObject({
+			code: "INVALID_ARGUMENT",
+			argumentNames: ["maxEvaluations"],
+		});
+	});
+
+	it("infers the order of longer arrays regardless of the order argument", () => {
+		expect(binarySearchArrayInsertionLeft([5, 3, 1], 2, "asc")).toBe(2);
+		expect(binarySearchArrayInsertionRight(["a", "c"], "b", "desc")).toBe(1);
+	});
+
+	it("recognizes search errors by their code", () => {
+		expect(isSearchError(new MonotonicityError(1, 2))).toBe(true);
+		expect(
+			isSearchError(caught(() => binarySearchInteger(0.5, 10, () => true))),
+		).toBe(true);
+		expect(isSearchError(new RangeError("other"))).toBe(false);
+		expect(isSearchError({ code: "INVALID_ARGUMENT" })).toBe(false);
+
+		const error = caught(() => binarySearchInteger(10, 20, (v) => v < 5));
+		if (!isSearchError(error)) throw error;
+		switch (error.code) {
+			case "PRECONDITION_VIOLATION":
+				expect(error.end).toBe("alwaysEnd");
+				break;
+			default:
+				throw error;
+		}
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "bun:test";
+import { InvalidArgumentError } from "../src/index.js";
+import {
+	karySearchBigint,
+	karySearchDouble,
+	karySearchGeneralized,
+	karySearchInteger,
+} from "../src/kary.js";
+
+const delay = <T>(value: T) =>
+	new Promise<T>((resolve) => setTimeout(() => resolve(value), 0));
+
+describe("karySearchInteger", () => {
+	it("should find the correct integer value", async () => {
+		const result = await karySearchInteger(0, 100, (value) =>
+			delay(value * value <= 180),
+		);
+		expect(result).toBe(13);
+	});
+
+	it("should work with descending order", async () => {
+		const result = await karySearchInteger(
+			100,
+			0,
+			(value) => delay(value * value > 180),
+			{ arity: 3 },
+		);
+		expect(result).toBe(14);
+	});
+
+	it("agrees with plain bisection for every boundary and arity", async () => {
+		for (const arity of [2, 3, 4, 5, 8]) {
+			for (let boundary = 0; boundary < 20; boundary++) {
+				const result = await karySearchInteger(
+					0,
+					20,
+					(value) => value <= boundary,
+					{ arity },
+				);
+				expect(result).toBe(boundary);
+			}
+		}
+	});
+
+	it("needs fewer rounds than bisection", async () => {
+		let rounds = 0;
+		let inFlight = 0;
+		await karySearchInteger(
+			0,
+			1 << 20,
+			async (value) => {
+				if (inFlight++ === 0) rounds++;
+				await delay(undefined);
+				inFlight--;
+				return value <= 123_456;
+			},
+			{ arity: 16, safety: "nocheck" },
+		);
+		expect(rounds).toBe(5);
+	});
+
+	it("respects the concurrency limit", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const result = await karySearchInteger(
+			0,
+			10_000,
+			async (value) => {
+				maxInFlight = Math.max(maxInFlight, ++inFlight);
+				await delay(undefined);
+				inFlight--;
+				return value <= 4321;
+			},
+			{ arity: 8, concurrency: 3 },
+		);
+		expect(result).toBe(4321);
+		expect(maxInFlight).toBe(3);
+	});
+
+	it("rejects when alwaysEnd does not satisfy condition", async () => {
+		await expect(karySearchInteger(10, 20, async (v) => v < 5)).rejects.toThrow(
+			new RangeError("alwaysEnd must satisfy the condition"),
+		);
+	});
+
+	it("rejects when neverEnd satisfies condition", async () => {
+		await expect(karySearchInteger(0, 10, async (v) => v < 20)).rejects.toThrow(
+			new RangeError("neverEnd must not satisfy the condition"),
+		);
+	});
+
+	it("rejects invalid arity and concurrency", async () => {
+		await expect(
+			karySearchInteger(0, 10, async (v) => v < 5, { arity: 1 }),
+		).rejects.toThrow("arity must be an integer greater than 1");
+		await expect(
+			karySearchInteger(0, 10, async (v) => v < 5, { concurrency: 0 }),
+		).rejects.toThrow("concurrency must be a positive integer or Infinity");
+	});
+
+	it("rejects with the abort reason", async () => {
+		const controller = new AbortController();
+		const promise = karySearchInteger(
+			0,
+			1000,
+			async (value) => {
+				controller.abort(new Error("cancelled"));
+				return value <= 700;
+			},
+			{ signal: controller.signal },
+		);
+		await expect(promise).rejects.toThrow("cancelled");
+	});
+});
+
+describe("karySearchBigint", () => {
+	it("should find the correct bigint value", async () => {
+		const result = await karySearchBigint(
+			100n,
+			0n,
+			async (value) => 2n ** value >= 10n ** 21n,
+			{ arity: 5 },
+		);
+		expect(result).toBe(70n);
+	});
+});
+
+describe("karySearchDouble", () => {
+	it("uses auto epsilon", async () => {
+		const result = await karySearchDouble(0, 10, async (v) => v <= 7.3);
+		expect(result).toBe(7.3);
+	});
+
+	it("uses an explicit epsilon", async () => {
+		const result = await karySearchDouble(
+			0,
+			Math.PI / 2,
+			async (value) => Math.sin(value) <= 0.5,
+			0.0005,
+		);
+		expect(result).toBeCloseTo(Math.PI / 6, 3);
+	});
+
+	it("rejects an epsilon that is not positive", async () => {
+		await expect(
+			karySearchDouble(0, 1, async (v) => v < 0.5, 0),
+		).rejects.toThrow("epsilon must be positive");
+	});
+
+	it("rejects invalid arguments with typed errors", async () => {
+		await expect(
+			karySearchDouble(Number.NEGATIVE_INFINITY, 10, async (v) => v <= 7.3),
+		).rejects.toBeInstanceOf(InvalidArgumentError);
+		await expect(
+			karySearchDouble(0, 10, async (v) => v <= 7.3, "auto", { arity: 1 }),
+		).rejects.toMatchObject({
+			code: "INVALID_ARGUMENT",
+			argumentNames: ["arity"],
+		});
+	});
+});
+
+describe("karySearchGeneralized", () => {
+	it("works with a custom domain (powers of two)", async () => {
+		const result = await karySearchGeneralized(
+			1,
+			2 ** 1023,
+			async (d) => d <= 123456789,
+			(a, b) => 2 ** Math.floor((Math.log2(a) + Math.log2(b)) / 2),
+			(a, b) => Math.abs(Math.log2(b) - Math.log2(a)) > 1,
+			{ arity: 4 },
+		);
+		expect(result).toBe(2 ** 26);
+	});
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "bun:test";
+import {
+	binarySearchInteger,
+	InvalidArgumentError,
+	isSearchError,
+	LevelOrderError,
+	stepDomain,
+} from "../src/index.js";
+import {
+	findLevelBoundaries,
+	findLevelBoundariesBigint,
+	findLevelBoundariesDouble,
+	findLevelBoundariesInteger,
+} from "../src/levels.js";
+
+describe("findLevelBoundariesInteger", () => {
+	const tiers = [100, 1_000, 10_000, 100_000, 1_000_000];
+	const tier = (requests: number) => tiers.filter((t) => requests >= t).length;
+
+	it("finds every boundary in order", () => {
+		expect(findLevelBoundariesInteger(0, 10_000_000, tier)).toStrictEqual(
+			tiers.map((t, i) => ({
+				last: t - 1,
+				first: t,
+				level: i,
+				nextLevel: i + 1,
+			})),
+		);
+	});
+
+	it("searches descending ranges and decreasing functions", () => {
+		expect(
+			findLevelBoundariesInteger(10_000_000, 0, tier).map((b) => b.last),
+		).toStrictEqual([...tiers].reverse());
+		expect(
+			findLevelBoundariesInteger(0, 10_000_000, (value) => -tier(value)).map(
+				(b) => b.first,
+			),
+		).toStrictEqual(tiers);
+	});
+
+	it("evaluates far less than one search per level", () => {
+		const levels = 64;
+		const n = 1 << 24;
+		const step = (value: number) => Math.floor((value * levels) / n);
+		let evaluations = 0;
+		const boundaries = findLevelBoundariesInteger(0, n - 1, (value) => {
+			evaluations++;
+			return step(value);
+		});
+		expect(boundaries).toHaveLength(levels - 1);
+
+		let separate = 0;
+		for (let level = 0; level + 1 < levels; level++) {
+			const always = binarySearchInteger(0, n - 1, (value) => {
+				separate++;
+				return step(value) <= level;
+			});
+			expect(boundaries[level]?.last).toBe(always);
+		}
+		expect(evaluations).toBeLessThan(separate);
+		expect(evaluations).toBeLessThanOrEqual(
+			levels * (Math.log2(n / levels) + 2),
+		);
+	});
+
+	it("skips levels narrower than the precision", () => {
+		const boundaries = findLevelBoundaries(
+			0,
+			100,
+			(value) => (value < 51 ? 0 : value === 51 ? 1 : 2),
+			stepDomain(2),
+		);
+		expect(boundaries).toHaveLength(1);
+		expect(boundaries[0]).toStrictEqual({
+			last: 50,
+			first: 52,
+			level: 0,
+			nextLevel: 2,
+		});
+	});
+
+	it("accepts comparable levels", () => {
+		const bands = ["gold", "silver", "bronze"] as const;
+		const band = (latency: number) =>
+			bands[latency < 100 ? 0 : latency < 300 ? 1 : 2];
+		const rank = (value: (typeof bands)[number]) => bands.indexOf(value);
+		expect(
+			findLevelBoundariesInteger(0, 1000, band, (a, b) => rank(a) - rank(b)),
+		).toStrictEqual([
+			{ last: 99, first: 100, level: "gold", nextLevel: "silver" },
+			{ last: 299, first: 300, level: "silver", nextLevel: "bronze" },
+		]);
+	});
+
+	it("returns no boundaries for a constant function", () => {
+		expect(findLevelBoundariesInteger(0, 100, () => 1)).toStrictEqual([]);
+	});
+
+	it("validates monotonicity in the check mode", () => {
+		const zigzag = (value: number) => (value === 50 ? 5 : value < 70 ? 0 : 1);
+		try {
+			findLevelBoundariesInteger(0, 100, zigzag);
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(LevelOrderError);
+			expect(isSearchError(error) && error.code).toBe("LEVEL_ORDER_VIOLATION");
+			expect(error).toMatchObject({
+				earlier: 50,
+				earlierLevel: 5,
+				later: 100,
+				laterLevel: 1,
+				message:
+					"levels are out of order: 50 is at level 5 but 100, which is farther from from, is at the earlier level 1",
+			});
+		}
+		expect(() =>
+			findLevelBoundariesInteger(0, 100, zigzag, undefined, "nocheck"),
+		).not.toThrow();
+		expect(() => findLevelBoundariesInteger(0.5, 100, tier)).toThrow(
+			InvalidArgumentError,
+		);
+	});
+});
+
+describe("findLevelBoundariesBigint", () => {
+	it("finds the number of digits", () => {
+		const boundaries = findLevelBoundariesBigint(
+			1n,
+			10n ** 30n,
+			(value) => value.toString().length,
+		);
+		expect(boundaries).toHaveLength(30);
+		boundaries.forEach((boundary, i) => {
+			expect(boundary).toStrictEqual({
+				last: 10n ** BigInt(i + 1) - 1n,
+				first: 10n ** BigInt(i + 1),
+				level: i + 1,
+				nextLevel: i + 2,
+			});
+		});
+	});
+});
+
+describe("findLevelBoundariesDouble", () => {
+	it("ends on adjacent doubles by default", () => {
+		const boundaries = findLevelBoundariesDouble(0, 10, Math.floor);
+		expect(boundaries).toHaveLength(10);
+		boundaries.forEach((boundary, i) => {
+			expect(boundary.first).toBe(i + 1);
+			expect(boundary.last).toBeLessThan(i + 1);
+			expect(boundary.last + Number.EPSILON * 16).toBeGreaterThanOrEqual(i + 1);
+		});
+	});
+
+	it("stops within epsilon", () => {
+		const boundaries = findLevelBoundariesDouble(0, 1, (x) => x >= 0.3, 1e-3);
+		expect(boundaries).toHaveLength(1);
+		const [boundary] = boundaries;
+		expect(boundary?.first).toBeGreaterThanOrEqual(0.3);
+		expect((boundary?.first ?? 0) - (boundary?.last ?? 0)).toBeLessThanOrEqual(
+			1e-3,
+		);
+		expect(() => findLevelBoundariesDouble(0, 1, Math.floor, 0)).toThrow(
+			InvalidArgumentError,
+		);
+	});
+
+	it("returns no boundaries for equal ends with any epsilon", () => {
+		for (const epsilon of ["auto", 1e-6, 1] as const) {
+			expect(
+				findLevelBoundariesDouble(2, 2, Math.floor, epsilon),
+			).toStrictEqual([]);
+			expect(
+				findLevelBoundariesDouble(2, 2 + 1e-7, Math.floor, epsilon),
+			).toStrictEqual([]);
+		}
+		expect(() => findLevelBoundariesDouble(2, 2, Math.floor, 0)).toThrow(
+			"epsilon must be positive",
+		);
+	});
+});
@@ -1,4 +1,14 @@
 import { describe, expect, it } from "bun:test";
+import {
+	bigintDomain,
+	createSearchTrace,
+	DimensionMismatchError,
+	evenDomain,
+	InvalidArgumentError,
+	integerDomain,
+	MonotonicityError,
+	type SearchStep,
+} from "../src/index.js";
 import {
 	type Midpoint,
 	ndBinarySearch,
@@ -137,4 +147,214 @@ describe("ndBinarySearch", () => {
 			),
 		).toThrow("All input vectors must have the same length");
 	});
+
+	it("reports the mismatching lengths", () => {
+		const mid = (a: number, b: number) => Math.floor((a + b) / 2);
+		const c = (a: number, b: number) => b - a > 1;
+		try {
+			ndBinarySearch<[number, number]>(
+				[0, 0],
+				[2, 2],
+				() => true,
+				// biome-ignore lint/suspicious/noExplicitAny: testing length check
+				[mid] as any,
+				[c, c],
+			);
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(DimensionMismatchError);
+			expect(error).toBeInstanceOf(RangeError);
+			expect(error).toMatchObject({
+				code: "DIMENSION_MISMATCH",
+				lengths: { alwaysEnd: 2, neverEnd: 2, midpoint: 1, shouldContinue: 2 },
+			});
+		}
+	});
+
+	it("accepts per-dimension domains", () => {
+		type Vec = [number, number];
+		const predicate = ([x, y]: Vec) => x * x + y * y < 16;
+		const mid = (a: number, b: number) => Math.floor(a / 2 + b / 2);
+		const c = (a: number, b: number) => Math.abs(b - a) > 1;
+		const sort = (vectors: Vec[]) =>
+			vectors.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+		expect(
+			sort([
+				...ndBinarySearch<Vec>([0, 0], [5, 5], predicate, [
+					integerDomain,
+					integerDomain,
+				]),
+			]),
+		).toStrictEqual(
+			sort([
+				...ndBinarySearch<Vec>([0, 0], [5, 5], predicate, [mid, mid], [c, c]),
+			]),
+		);
+		for (const [x] of ndBinarySearch<Vec>([0, 0], [6, 5], predicate, [
+			evenDomain,
+			integerDomain,
+		])) {
+			expect(x % 2).toBe(0);
+		}
+		const mixed = [
+			...ndBinarySearch<[bigint, number]>(
+				[0n, 0],
+				[5n, 5],
+				([x, y]) => Number(x) + y < 4,
+				[bigintDomain, integerDomain],
+			),
+		];
+		expect(mixed.length).toBeGreaterThan(0);
+		expect(() =>
+			ndBinarySearch<Vec>([0, 0], [5, 5], predicate, [
+				evenDomain,
+				integerDomain,
+			]),
+		).toThrow(InvalidArgumentError);
+		expect(() =>
+			ndBinarySearch<Vec>([0, 0], [5, 5], predicate, [
+				integerDomain,
+			] as unknown as [typeof integerDomain, typeof integerDomain]),
+		).toThrow(DimensionMismatchError);
+	});
+
+	it("reports steps and fills in a trace", () => {
+		type Vec = [number, number];
+		const mid = (a: number, b: number) => Math.floor((a + b) / 2);
+		const c = (a: number, b: number) => b - a > 1;
+		const steps: SearchStep<Vec>[] = [];
+		const trace = createSearchTrace<Vec>();
+		const predicate = ([x, y]: Vec) => x * x + y * y < 16;
+
+		const result = [
+			...ndBinarySearch<Vec>([0, 0], [4, 4], predicate, [mid, mid], [c, c], {
+				onStep: (step) => steps.push(step),
+				trace,
+			}),
+		];
+
+		expect(result.length).toBeGreaterThan(0);
+		expect(steps[0]).toStrictEqual({
+			iteration: 1,
+			low: [0, 0],
+			high: [4, 4],
+			probe: [2, 2],
+			result: true,
+		});
+		expect(trace.iterations).toBe(steps.length);
+		expect(trace.evaluations).toBeGreaterThanOrEqual(trace.iterations);
+		expect(trace.history[0]).toStrictEqual({ low: [0, 0], high: [4, 4] });
+		expect(trace.bracket?.low).toStrictEqual(result[result.length - 1]);
+	});
+
+	describe("verify safety mode", () => {
+		type Vec = [number, number];
+		const mid = (always: number, never: number) =>
+			Math.floor((always + never) / 2);
+		const c = (always: number, never: number) => Math.abs(never - always) > 1;
+		const midpoint: Midpoint<Vec> = [mid, mid];
+		const shouldContinue: ShouldContinue<Vec> = [c, c];
+
+		it("returns the same border for a monotonic predicate", () => {
+			const predicate = (v: Vec) => v[0] + 2 * v[1] < 20;
+			const plain = [
+				...ndBinarySearch(
+					[0, 0],
+					[16, 16],
+					predicate,
+					midpoint,
+					shouldContinue,
+				),
+			];
+			const verified = [
+				...ndBinarySearch(
+					[0, 0],
+					[16, 16],
+					predicate,
+					midpoint,
+					shouldContinue,
+					{ safety: "verify", verifySamples: 20 },
+				),
+			];
+			expect(verified).toStrictEqual(plain);
+		});
+
+		it("stays linear over many evaluations", () => {
+			const n = 1 << 13;
+			const predicate = (v: Vec) => v[0] * v[0] + v[1] * v[1] < (n * n) / 2;
+			const plain = [
+				...ndBinarySearch<Vec>([0, 0], [n, n], predicate, [
+					integerDomain,
+					integerDomain,
+				]),
+			];
+			const trace = createSearchTrace<Vec>();
+			const verified = [
+				...ndBinarySearch<Vec>(
+					[0, 0],
+					[n, n],
+					predicate,
+					[integerDomain, integerDomain],
+					{ safety: "verify", trace },
+				),
+			];
+			expect(verified).toStrictEqual(plain);
+			expect(trace.evaluations).toBeGreaterThan(40_000);
+		});
+
+		it("throws a MonotonicityError with two witnesses", () => {
+			// Not monotonic: a hole of false values near alwaysEnd
+			const predicate = (v: Vec) =>
+				v[0] + v[1] < 20 && !(v[0] === 8 && v[1] === 8);
+			let error: unknown;
+			try {
+				[
+					...ndBinarySearch(
+						[0, 0],
+						[16, 16],
+						predicate,
+						midpoint,
+						shouldContinue,
+						{ safety: "verify" },
+					),
+				];
+			} catch (e) {
+				error = e;
+			}
+			expect(error).toBeInstanceOf(MonotonicityError);
+			const { unsatisfied, satisfied } = error as MonotonicityError<Vec>;
+			expect(predicate(unsatisfied)).toBe(false);
+			expect(predicate(satisfied)).toBe(true);
+			expect(unsatisfied[0]).toBeLessThanOrEqual(satisfied[0]);
+			expect(unsatisfied[1]).toBeLessThanOrEqual(satisfied[1]);
+		});
+
+		it("checks the corners", () => {
+			const search = ndBinarySearch(
+				[0, 0],
+				[16, 16],
+				() => true,
+				midpoint,
+				shouldContinue,
+				{ safety: "verify" },
+			);
+			expect(() => search.next()).toThrow(
+				"neverEnd must not satisfy the condition",
+			);
+		});
+
+		it("requires primitive numeric components", () => {
+			expect(() =>
+				ndBinarySearch<[string, string]>(
+					["a", "b"],
+					["c", "d"],
+					() => true,
+					[(a) => a, (a) => a],
+					[() => false, () => false],
+					{ safety: "verify" },
+				),
+			).toThrow("verify mode requires number or bigint components");
+		});
+	});
 });
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import {
+	noisyBinarySearchBigint,
+	noisyBinarySearchInteger,
+} from "../src/noisy.js";
+
+/** Deterministic pseudo-random numbers in [0, 1) (mulberry32) */
+const createRandom = (seed: number) => () => {
+	seed = (seed + 0x6d2b79f5) | 0;
+	let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+	t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+	return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+describe("noisyBinarySearchInteger", () => {
+	it("finds the boundary with a reliable predicate", () => {
+		const result = noisyBinarySearchInteger(0, 100, (v) => v * v <= 180, {
+			errorRate: 0,
+			confidence: 0.99,
+		});
+		expect(result).toStrictEqual({ value: 13, probability: 1, evaluations: 7 });
+	});
+
+	it("works with descending order", () => {
+		const result = noisyBinarySearchInteger(100, 0, (v) => v * v > 180, {
+			errorRate: 0.05,
+			confidence: 0.99,
+		});
+		expect(result.value).toBe(14);
+		expect(result.probability).toBeGreaterThanOrEqual(0.99);
+	});
+
+	it("recovers from wrong answers of a flaky predicate", () => {
+		const random = createRandom(1);
+		let correct = 0;
+		for (let trial = 0; trial < 100; trial++) {
+			const boundary = Math.floor(random() * 1000);
+			const result = noisyBinarySearchInteger(
+				0,
+				1000,
+				(v) => v <= boundary !== random() < 0.2,
+				{ errorRate: 0.2, confidence: 0.99 },
+			);
+			expect(result.probability).toBeGreaterThanOrEqual(0.99);
+			if (result.value === boundary) correct++;
+		}
+		expect(correct).toBeGreaterThanOrEqual(95);
+	});
+
+	it("stops at the evaluation budget", () => {
+		const random = createRandom(2);
+		const result = noisyBinarySearchInteger(
+			0,
+			1_000_000,
+			(v) => v <= 123_456 !== random() < 0.3,
+			{ errorRate: 0.3, confidence: 0.999, maxEvaluations: 10 },
+		);
+		expect(result.evaluations).toBe(10);
+		expect(result.probability).toBeLessThan(0.999);
+	});
+
+	it("needs no evaluation for a single candidate", () => {
+		const result = noisyBinarySearchInteger(5, 6, () => true, {
+			errorRate: 0.1,
+			confidence: 0.9,
+		});
+		expect(result).toStrictEqual({ value: 5, probability: 1, evaluations: 0 });
+	});
+
+	it("throws for invalid options", () => {
+		const predicate = (v: number) => v < 5;
+		expect(() =>
+			noisyBinarySearchInteger(0, 10, predicate, {
+				errorRate: 0.5,
+				confidence: 0.9,
+			}),
+		).toThrow("errorRate must be in [0, 0.5)");
+		expect(() =>
+			noisyBinarySearchInteger(0, 10, predicate, {
+				errorRate: 0.1,
+				confidence: 1,
+			}),
+		).toThrow("confidence must be in (0, 1)");
+		expect(() =>
+			noisyBinarySearchInteger(0, 10, predicate, {
+				errorRate: 0.1,
+				confidence: 0.9,
+				maxEvaluations: -1,
+			}),
+		).toThrow("maxEvaluations must be non-negative");
+	});
+
+	it("throws for invalid endpoints", () => {
+		const options = { errorRate: 0.1, confidence: 0.9 };
+		expect(() => noisyBinarySearchInteger(3, 3, () => true, options)).toThrow(
+			"alwaysEnd and neverEnd must be different",
+		);
+		expect(() => noisyBinarySearchInteger(0.5, 3, () => true, options)).toThrow(
+			"alwaysEnd and neverEnd must be safe integers",
+		);
+	});
+});
+
+describe("noisyBinarySearchBigint", () => {
+	it("finds the boundary in a huge range", () => {
+		const random = createRandom(3);
+		const result = noisyBinarySearchBigint(
+			0n,
+			10n ** 15n,
+			(v) => v <= 123_456_789_012n !== random() < 0.1,
+			{ errorRate: 0.1, confidence: 0.99 },
+		);
+		expect(result.value).toBe(123_456_789_012n);
+		expect(result.probability).toBeGreaterThanOrEqual(0.99);
+	});
+
+	it("works with descending order", () => {
+		const result = noisyBinarySearchBigint(
+			100n,
+			0n,
+			(v) => 2n ** v >= 10n ** 21n,
+			{ errorRate: 0, confidence: 0.9 },
+		);
+		expect(result.value).toBe(70n);
+	});
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "bun:test";
+import { binarySearchGeneralized, InvalidArgumentError } from "../src/index.js";
+import {
+	compareRational,
+	mediant,
+	type Rational,
+	rational,
+	rationalDomain,
+	sternBrocotSearch,
+} from "../src/rational.js";
+
+/** Whether a rational number is at most `p / q` */
+const atMost = (p: bigint, q: bigint) => (value: Rational) =>
+	value.numerator * q <= p * value.denominator;
+
+describe("rational", () => {
+	it("reduces to lowest terms with a positive denominator", () => {
+		expect(rational(6n, -4n)).toStrictEqual({
+			numerator: -3n,
+			denominator: 2n,
+		});
+		expect(rational(0n, 5n)).toStrictEqual({ numerator: 0n, denominator: 1n });
+		expect(rational(7n)).toStrictEqual({ numerator: 7n, denominator: 1n });
+		expect(() => rational(1n, 0n)).toThrow("denominator must not be zero");
+	});
+
+	it("compares and takes mediants", () => {
+		expect(compareRational(rational(1n, 3n), rational(2n, 5n))).toBe(-1);
+		expect(compareRational(rational(2n, 4n), rational(1n, 2n))).toBe(0);
+		expect(compareRational(rational(-1n, 2n), rational(-2n, 3n))).toBe(1);
+		expect(mediant(rational(1n, 3n), rational(1n, 2n))).toStrictEqual({
+			numerator: 2n,
+			denominator: 5n,
+		});
+	});
+});
+
+describe("sternBrocotSearch", () => {
+	it("returns the nearest fractions on both sides of the boundary", () => {
+		const { always, never } = sternBrocotSearch(
+			rational(3n),
+			rational(4n),
+			atMost(355n, 113n),
+			1000n,
+		);
+		expect(always).toStrictEqual(rational(355n, 113n));
+		expect(never).toStrictEqual(rational(2862n, 911n));
+	});
+
+	it("finds the simplest fraction near an irrational boundary", () => {
+		const { always, never } = sternBrocotSearch(
+			rational(3n),
+			rational(4n),
+			(v) => Number(v.numerator) / Number(v.denominator) <= Math.PI,
+			200n,
+		);
+		expect(always).toStrictEqual(rational(333n, 106n));
+		expect(never).toStrictEqual(rational(355n, 113n));
+	});
+
+	it("matches a brute-force search over all fractions", () => {
+		const maxDenominator = 12n;
+		const fractions: Rational[] = [];
+		for (let d = 1n; d <= maxDenominator; d++) {
+			for (let n = -2n * d; n <= 2n * d; n++) fractions.push(rational(n, d));
+		}
+		for (const [p, q] of [
+			[1n, 7n],
+			[-5n, 13n],
+			[17n, 10n],
+			[0n, 1n],
+			[-2n, 1n],
+		] as const) {
+			const threshold = rational(p, q);
+			const below = fractions.filter((v) => compareRational(v, threshold) <= 0);
+			const above = fractions.filter((v) => compareRational(v, threshold) > 0);
+			const expectedAlways = below.reduce((a, b) =>
+				compareRational(a, b) >= 0 ? a : b,
+			);
+			const expectedNever = above.reduce((a, b) =>
+				compareRational(a, b) <= 0 ? a : b,
+			);
+			const { always, never } = sternBrocotSearch(
+				rational(-2n),
+				rational(2n),
+				atMost(p, q),
+				maxDenominator,
+			);
+			expect(always).toStrictEqual(expectedAlways);
+			expect(never).toStrictEqual(expectedNever);
+		}
+	});
+
+	it("works with descending order", () => {
+		const { always, never } = sternBrocotSearch(
+			rational(4n),
+			rational(-4n),
+			(v) => v.numerator * 7n >= -22n * v.denominator,
+			100n,
+		);
+		expect(always).toStrictEqual(rational(-22n, 7n));
+		expect(never).toStrictEqual(rational(-305n, 97n));
+	});
+
+	it("gallops over long runs in one direction", () => {
+		const { always, never, iterations } = sternBrocotSearch(
+			rational(0n),
+			rational(1n),
+			atMost(1n, 10n ** 9n),
+			10n ** 6n,
+		);
+		expect(always).toStrictEqual(rational(0n));
+		expect(never).toStrictEqual(rational(1n, 10n ** 6n));
+		expect(iterations).toBeLessThan(50);
+	});
+
+	it("throws for invalid arguments", () => {
+		expect(() =>
+			sternBrocotSearch(rational(0n), rational(1n, 3n), () => true, 2n),
+		).toThrow(
+			"maxDenominator must not be less than the denominators of alwaysEnd and neverEnd",
+		);
+		expect(() =>
+			sternBrocotSearch(
+				{ numerator: 1n, denominator: 0n },
+				rational(1n),
+				() => true,
+				2n,
+			),
+		).toThrow("alwaysEnd and neverEnd must have positive denominators");
+		expect(() =>
+			sternBrocotSearch(rational(0n), rational(1n), () => true, 10n),
+		).toThrow("neverEnd must not satisfy the condition");
+	});
+});
+
+describe("rationalDomain", () => {
+	it("plugs into binarySearchGeneralized", () => {
+		const { midpoint, shouldContinue } = rationalDomain(100n);
+		const predicate = atMost(1n, 3n);
+		expect(
+			binarySearchGeneralized(
+				rational(0n),
+				rational(1n),
+				predicate,
+				midpoint,
+				shouldContinue,
+			),
+		).toStrictEqual(rational(1n, 3n));
+		expect(
+			binarySearchGeneralized(
+				rational(2n),
+				rational(3n),
+				(v) => Number(v.numerator) / Number(v.denominator) <= Math.SQRT2 + 1,
+				midpoint,
+				shouldContinue,
+			),
+		).toStrictEqual(
+			sternBrocotSearch(
+				rational(2n),
+				rational(3n),
+				(v) => Number(v.numerator) / Number(v.denominator) <= Math.SQRT2 + 1,
+				100n,
+			).always,
+		);
+	});
+
+	it("is a search domain", () => {
+		const domain = rationalDomain(100n);
+		expect(
+			binarySearchGeneralized(
+				rational(0n),
+				rational(1n),
+				atMost(1n, 3n),
+				domain,
+			),
+		).toStrictEqual(rational(1n, 3n));
+		expect(domain.compare(rational(1n, 3n), rational(1n, 2n))).toBeLessThan(0);
+		expect(() =>
+			binarySearchGeneralized(
+				rational(0n),
+				rational(1n, 101n),
+				atMost(0n, 1n),
+				domain,
+			),
+		).toThrow(InvalidArgumentError);
+	});
+
+	it("throws for a non-positive maximum denominator", () => {
+		expect(() => rationalDomain(0n)).toThrow("maxDenominator must be positive");
+	});
+});
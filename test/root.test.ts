@@ -0,0 +1,75 @@
+import { describe, expect, it } from "bun:test";
+import { binarySearchDoubleBracket, PreconditionError } from "../src/index.js";
+import { findRootDouble } from "../src/root.js";
+
+describe("findRootDouble", () => {
+	const cases: [string, number, number, (x: number) => number, number][] = [
+		["cube root", 0, 2, (x) => x ** 3, 2],
+		["decreasing", 2, 0, (x) => -(x ** 3), -2],
+		["exponential", 0, 10, Math.exp, 5],
+		["wide linear", -1e10, 1e10, (x) => x, 3.5],
+		["across zero", -1, 1, (x) => x, 0],
+		["step", -1, 1, (x) => (x < 0.3 ? 0 : 1), 0.5],
+		["logarithm", 1e-300, 1e300, Math.log, 10],
+	];
+
+	for (const [name, alwaysEnd, neverEnd, f, y] of cases) {
+		it(`returns the bracket of the auto epsilon mode (${name})`, () => {
+			const result = findRootDouble(alwaysEnd, neverEnd, f, y);
+			const bisection = binarySearchDoubleBracket(
+				alwaysEnd,
+				neverEnd,
+				(x) => f(x) <= y,
+			);
+			expect(result.always).toBe(bisection.always);
+			expect(result.never).toBe(bisection.never);
+			expect(result.iterations).toBeLessThanOrEqual(65);
+		});
+	}
+
+	it("converges faster than bisection for smooth functions", () => {
+		let evaluations = 0;
+		const { always, never } = findRootDouble(
+			0,
+			2,
+			(x) => {
+				evaluations++;
+				return x ** 3;
+			},
+			2,
+		);
+		expect(always ** 3).toBeLessThanOrEqual(2);
+		expect(never ** 3).toBeGreaterThan(2);
+		expect(evaluations).toBeLessThan(20);
+	});
+
+	it("never takes more than one iteration beyond bisection over the double positions", () => {
+		// A step function defeats the interpolation
+		for (const threshold of [1e-300, 0.1, 0.7, 123.456, 1e200]) {
+			const { iterations } = findRootDouble(
+				0,
+				1e300,
+				(x) => (x < threshold ? 0 : 1),
+				0.5,
+			);
+			expect(iterations).toBeLessThanOrEqual(64);
+		}
+	});
+
+	it("checks the endpoints", () => {
+		expect(() => findRootDouble(0, 2, (x) => x, -1)).toThrow(PreconditionError);
+		expect(() => findRootDouble(0, 2, (x) => x, 3)).toThrow(
+			"neverEnd must not satisfy the condition",
+		);
+		expect(() => findRootDouble(0, 2, (x) => x, 3, "nocheck")).not.toThrow();
+	});
+
+	it("throws for invalid arguments", () => {
+		expect(() => findRootDouble(0, Infinity, (x) => x, 1)).toThrow(
+			"alwaysEnd and neverEnd must be finite numbers",
+		);
+		expect(() => findRootDouble(0, 2, (x) => x, Number.NaN)).toThrow(
+			"y must not be NaN",
+		);
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import {
+	binarySearchIntegerBracket,
+	InvalidArgumentError,
+	PreconditionError,
+	stepDomain,
+} from "../src/index.js";
+import {
+	binarySearchBigintSkip,
+	binarySearchGeneralizedSkip,
+	binarySearchIntegerSkip,
+} from "../src/skip.js";
+
+describe("binarySearchIntegerSkip", () => {
+	// Builds 450 to 549 do not compile
+	const bisect = (lastGood: number) => (build: number) =>
+		build >= 450 && build < 550 ? "skip" : build <= lastGood;
+
+	it("matches binarySearchIntegerBracket without skips", () => {
+		const predicate = (value: number) => value * value <= 5000;
+		expect(binarySearchIntegerSkip(0, 1000, predicate)).toStrictEqual({
+			...binarySearchIntegerBracket(0, 1000, predicate),
+			skipped: [],
+		});
+	});
+
+	it("probes around skipped values to find the exact boundary", () => {
+		for (const lastGood of [100, 440, 550, 700]) {
+			let evaluations = 0;
+			const result = binarySearchIntegerSkip(0, 1000, (build) => {
+				evaluations++;
+				return bisect(lastGood)(build);
+			});
+			expect(result).toMatchObject({
+				always: lastGood,
+				never: lastGood + 1,
+				skipped: [],
+			});
+			// About twice the 10 probes of a plain search at most
+			expect(evaluations).toBeLessThanOrEqual(2 + 20);
+		}
+	});
+
+	it("returns the candidate range when skips make the boundary ambiguous", () => {
+		const result = binarySearchIntegerSkip(0, 1000, bisect(500));
+		expect(result.always).toBe(449);
+		expect(result.never).toBe(550);
+		expect(result.skipped).toStrictEqual(
+			Array.from({ length: 100 }, (_, i) => 450 + i),
+		);
+		expect(
+			binarySearchIntegerSkip(1000, 0, (build) =>
+				build === 600 ? "skip" : build >= 600,
+			),
+		).toMatchObject({ always: 601, never: 599, skipped: [600] });
+	});
+
+	it("validates the precondition", () => {
+		expect(() => binarySearchIntegerSkip(0, 1000, bisect(1000))).toThrow(
+			PreconditionError,
+		);
+		expect(() => binarySearchIntegerSkip(450, 1000, bisect(700))).toThrow(
+			"alwaysEnd must satisfy the condition",
+		);
+		expect(
+			binarySearchIntegerSkip(450, 1000, bisect(700), "nocheck"),
+		).toMatchObject({ always: 700, never: 701 });
+		expect(() => binarySearchIntegerSkip(0, 0.5, () => true)).toThrow(
+			InvalidArgumentError,
+		);
+	});
+});
+
+describe("binarySearchBigintSkip", () => {
+	it("searches around unreadable offsets", () => {
+		expect(
+			binarySearchBigintSkip(0n, 10n ** 20n, (offset) =>
+				offset % 7n === 3n ? "skip" : offset <= 10n ** 15n,
+			),
+		).toMatchObject({ always: 10n ** 15n, skipped: [] });
+	});
+});
+
+describe("binarySearchGeneralizedSkip", () => {
+	it("searches any domain", () => {
+		expect(
+			binarySearchGeneralizedSkip(
+				0,
+				100,
+				(value) => (value === 50 ? "skip" : value < 55),
+				stepDomain(10),
+			),
+		).toMatchObject({ always: 40, never: 60, skipped: [50] });
+	});
+});
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "bun:test";
+import { binarySearchDouble, binarySearchInteger } from "../src/index.js";
+import {
+	createSearchStepper,
+	createSearchStepperBigint,
+	createSearchStepperDouble,
+	createSearchStepperInteger,
+	restoreSearchStepper,
+	restoreSearchStepperBigint,
+	restoreSearchStepperDouble,
+	restoreSearchStepperInteger,
+	type SearchStepper,
+	type StepperCodec,
+} from "../src/stepper.js";
+
+/** Drives a stepper to the end with a predicate */
+const run = <T>(
+	stepper: SearchStepper<T>,
+	predicate: (value: T) => boolean,
+) => {
+	let probe = stepper.nextProbe();
+	while (probe !== undefined) {
+		stepper.report(probe, predicate(probe));
+		probe = stepper.nextProbe();
+	}
+	return stepper.result();
+};
+
+describe("createSearchStepperInteger", () => {
+	it("asks for the endpoints, then bisects like binarySearchInteger", () => {
+		const predicate = (v: number) => v ** 2 <= 180;
+		const stepper = createSearchStepperInteger(0, 100);
+		expect(stepper.nextProbe()).toBe(0);
+		stepper.report(0, true);
+		expect(stepper.nextProbe()).toBe(100);
+		stepper.report(100, false);
+		expect(stepper.nextProbe()).toBe(50);
+		expect(stepper.isDone()).toBe(false);
+
+		const result = run(stepper, predicate);
+		expect(stepper.isDone()).toBe(true);
+		expect(stepper.nextProbe()).toBeUndefined();
+		expect(result).toEqual({ always: 13, never: 14, iterations: 7 });
+		expect(result.always).toBe(binarySearchInteger(0, 100, predicate));
+	});
+
+	it("works with descending order", () => {
+		const stepper = createSearchStepperInteger(100, 0, "nocheck");
+		expect(run(stepper, (v) => v ** 2 > 180).always).toBe(14);
+	});
+
+	it("accepts results of values other than the suggested probe", () => {
+		const stepper = createSearchStepperInteger(0, 100, "nocheck");
+		stepper.report(30, false);
+		stepper.report(10, true);
+		expect(stepper.result()).toEqual({ always: 10, never: 30, iterations: 2 });
+		expect(stepper.nextProbe()).toBe(20);
+	});
+
+	it("throws for endpoint results that violate the precondition", () => {
+		const stepper = createSearchStepperInteger(0, 100);
+		expect(() => stepper.report(0, false)).toThrow(
+			"alwaysEnd must satisfy the condition",
+		);
+		expect(() => stepper.report(100, true)).toThrow(
+			"neverEnd must not satisfy the condition",
+		);
+		expect(() => stepper.report(50, true)).toThrow(
+			"the result of alwaysEnd must be reported first",
+		);
+	});
+
+	it("throws for values outside the bracket and after convergence", () => {
+		const stepper = createSearchStepperInteger(0, 100, "nocheck");
+		stepper.report(50, true);
+		expect(() => stepper.report(20, false)).toThrow(
+			"reported value 20 must lie strictly between 50 and 100",
+		);
+		run(stepper, (v) => v <= 77);
+		expect(() => stepper.report(77, true)).toThrow(
+			"the search is already done",
+		);
+	});
+
+	it("throws for invalid endpoints", () => {
+		expect(() => createSearchStepperInteger(0.5, 10)).toThrow(
+			"alwaysEnd and neverEnd must be safe integers",
+		);
+		expect(() => createSearchStepperInteger(3, 3)).toThrow(RangeError);
+	});
+});
+
+describe("serialization", () => {
+	it("round-trips integer steppers through JSON", () => {
+		const predicate = (v: number) => v < 1234;
+		const stepper = createSearchStepperInteger(0, 10_000);
+		for (let i = 0; i < 5; i++) {
+			// biome-ignore lint/style/noNonNullAssertion: the search is not done yet
+			const probe = stepper.nextProbe()!;
+			stepper.report(probe, predicate(probe));
+		}
+		const json = JSON.stringify(stepper);
+		const restored = restoreSearchStepperInteger(json);
+		expect(restored.result()).toEqual(stepper.result());
+		expect(restored.nextProbe()).toBe(stepper.nextProbe());
+		expect(run(restored, predicate).always).toBe(1233);
+	});
+
+	it("keeps unchecked endpoints across sessions", () => {
+		const stepper = createSearchStepperInteger(0, 10);
+		stepper.report(0, true);
+		const restored = restoreSearchStepperInteger(stepper.toJSON());
+		expect(restored.toJSON().unchecked).toStrictEqual(["neverEnd"]);
+		expect(restored.nextProbe()).toBe(10);
+	});
+
+	it("stores bigints as strings", () => {
+		const predicate = (v: bigint) => v * v <= 10n ** 30n;
+		const stepper = createSearchStepperBigint(0n, 10n ** 20n);
+		// biome-ignore lint/style/noNonNullAssertion: the search is not done yet
+		stepper.report(stepper.nextProbe()!, true);
+		// biome-ignore lint/style/noNonNullAssertion: the search is not done yet
+		stepper.report(stepper.nextProbe()!, false);
+		// biome-ignore lint/style/noNonNullAssertion: the search is not done yet
+		const probe = stepper.nextProbe()!;
+		stepper.report(probe, predicate(probe));
+		const json = JSON.stringify(stepper);
+		expect(JSON.parse(json).never).toBe(String(probe));
+
+		const restored = restoreSearchStepperBigint(json);
+		expect(run(restored, predicate).always).toBe(10n ** 15n);
+	});
+
+	it("round-trips double steppers with the same epsilon", () => {
+		const predicate = (v: number) => Math.sin(v) <= 0.5;
+		const stepper = createSearchStepperDouble(
+			0,
+			Math.PI / 2,
+			"auto",
+			"nocheck",
+		);
+		for (let i = 0; i < 10; i++) {
+			// biome-ignore lint/style/noNonNullAssertion: the search is not done yet
+			const probe = stepper.nextProbe()!;
+			stepper.report(probe, predicate(probe));
+		}
+		const restored = restoreSearchStepperDouble(JSON.stringify(stepper));
+		expect(run(restored, predicate).always).toBe(
+			binarySearchDouble(0, Math.PI / 2, predicate),
+		);
+
+		const coarse = createSearchStepperDouble(0, 10, 0.01, "nocheck");
+		const result = run(
+			restoreSearchStepperDouble(coarse.toJSON(), 0.01),
+			(v) => v <= Math.E,
+		);
+		expect(result.always).toBeLessThanOrEqual(Math.E);
+		expect(result.never - result.always).toBeLessThanOrEqual(0.01);
+	});
+
+	it("matches endpoint results by identity, not by their encoding", () => {
+		// The default codec cannot encode bigints, but endpoint results do not need it
+		const stepper = createSearchStepper(
+			0n,
+			100n,
+			(always, never) => (always + never) / 2n,
+			(always, never) => never - always > 1n,
+		);
+		stepper.report(100n, false);
+		stepper.report(0n, true);
+		expect(run(stepper, (v) => v * v <= 180n).always).toBe(13n);
+	});
+
+	it("uses a codec for non-JSON values", () => {
+		type Fraction = { numerator: bigint; denominator: bigint };
+		const codec: StepperCodec<Fraction> = {
+			encode: (value) => `${value.numerator}/${value.denominator}`,
+			decode: (encoded) => {
+				const [numerator = "", denominator = ""] = String(encoded).split("/");
+				return {
+					numerator: BigInt(numerator),
+					denominator: BigInt(denominator),
+				};
+			},
+		};
+		const mid = (a: Fraction, b: Fraction): Fraction => ({
+			numerator: a.numerator * b.denominator + b.numerator * a.denominator,
+			denominator: 2n * a.denominator * b.denominator,
+		});
+		// Continue while the gap is greater than 1/1024
+		const shouldContinue = (a: Fraction, b: Fraction) => {
+			const gap = b.numerator * a.denominator - a.numerator * b.denominator;
+			return (gap < 0n ? -gap : gap) * 1024n > a.denominator * b.denominator;
+		};
+		const predicate = (v: Fraction) => v.numerator * 3n <= v.denominator;
+
+		const stepper = createSearchStepper(
+			{ numerator: 0n, denominator: 1n },
+			{ numerator: 1n, denominator: 1n },
+			mid,
+			shouldContinue,
+			"check",
+			codec,
+		);
+		// biome-ignore lint/style/noNonNullAssertion: the search is not done yet
+		stepper.report(stepper.nextProbe()!, true);
+		// biome-ignore lint/style/noNonNullAssertion: neverEnd is not checked yet
+		stepper.report(stepper.nextProbe()!, false);
+		const json = JSON.stringify(stepper);
+		expect(JSON.parse(json)).toStrictEqual({
+			always: "0/1",
+			never: "1/1",
+			iterations: 0,
+			unchecked: [],
+		});
+
+		const restored = restoreSearchStepper(json, mid, shouldContinue, codec);
+		const { always, never } = run(restored, predicate);
+		expect(predicate(always)).toBe(true);
+		expect(predicate(never)).toBe(false);
+		expect(shouldContinue(always, never)).toBe(false);
+	});
+
+	it("throws for malformed states", () => {
+		expect(() => restoreSearchStepperInteger("{}")).toThrow(
+			"invalid search stepper state",
+		);
+		expect(() =>
+			restoreSearchStepperInteger({
+				always: 0,
+				never: 10,
+				iterations: -1,
+				unchecked: [],
+			}),
+		).toThrow("invalid search stepper state");
+		expect(() =>
+			restoreSearchStepperInteger({
+				always: "0",
+				never: 10,
+				iterations: 0,
+				unchecked: [],
+			}),
+		).toThrow("alwaysEnd and neverEnd must be safe integers");
+		expect(() =>
+			restoreSearchStepperBigint({
+				always: 0,
+				never: "10",
+				iterations: 0,
+				unchecked: [],
+			}),
+		).toThrow("encoded bigint must be a string");
+	});
+});
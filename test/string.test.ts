@@ -0,0 +1,111 @@
+import { describe, expect, it } from "bun:test";
+import { InvalidArgumentError, PreconditionError } from "../src/errors.js";
+import { binarySearchString } from "../src/string.js";
+
+// All strings over the alphabet up to the length, in lexicographic order
+const enumerate = (alphabet: string, maxLength: number): string[] => {
+	const result: string[] = [];
+	const visit = (prefix: string) => {
+		result.push(prefix);
+		if (prefix.length < maxLength) {
+			for (const character of alphabet) visit(prefix + character);
+		}
+	};
+	visit("");
+	return result;
+};
+
+describe("binarySearchString", () => {
+	const alphabet = "abc";
+	const maxLength = 3;
+	const all = enumerate(alphabet, maxLength);
+
+	it("finds every boundary in both directions", () => {
+		for (const boundary of all.slice(0, -1)) {
+			expect(
+				binarySearchString("", "ccc", (value) => value <= boundary, {
+					alphabet,
+					maxLength,
+				}),
+			).toBe(boundary);
+		}
+		for (const boundary of all.slice(1)) {
+			expect(
+				binarySearchString("ccc", "", (value) => value >= boundary, {
+					alphabet,
+					maxLength,
+				}),
+			).toBe(boundary);
+		}
+	});
+
+	it("probes only strings within the alphabet and maxLength between the bounds", () => {
+		const probes: string[] = [];
+		binarySearchString(
+			"ab",
+			"cb",
+			(value) => {
+				probes.push(value);
+				return value <= "bba";
+			},
+			{ alphabet, maxLength },
+		);
+		for (const probe of probes) {
+			expect(all).toContain(probe);
+			expect(probe >= "ab" && probe <= "cb").toBe(true);
+		}
+		// About log2 of the number of strings between the bounds
+		expect(probes.length).toBeLessThanOrEqual(
+			2 + Math.ceil(Math.log2(all.length)),
+		);
+	});
+
+	it("orders strings by the alphabet", () => {
+		// Translates the order of "zyxa" to the order of "abcd"
+		const translate = (value: string) =>
+			[...value].map((c) => "abcd"["zyxa".indexOf(c)]).join("");
+		expect(
+			binarySearchString("", "aaaa", (value) => translate(value) <= "acb", {
+				alphabet: "zyxa",
+				maxLength: 4,
+			}),
+		).toBe("zxy");
+	});
+
+	it("handles long strings and characters outside the BMP", () => {
+		const boundary = `${"🍣".repeat(20)}🍙`;
+		expect(
+			binarySearchString("", "🍣".repeat(40), (value) => value <= boundary, {
+				alphabet: "🍙🍣",
+				maxLength: 40,
+			}),
+		).toBe(boundary);
+	});
+
+	it("validates arguments", () => {
+		const predicate = (value: string) => value <= "b";
+		expect(() =>
+			binarySearchString("", "c", predicate, { alphabet: "", maxLength: 1 }),
+		).toThrow(InvalidArgumentError);
+		expect(() =>
+			binarySearchString("", "c", predicate, {
+				alphabet: "abca",
+				maxLength: 1,
+			}),
+		).toThrow("alphabet must consist of distinct characters");
+		expect(() =>
+			binarySearchString("", "c", predicate, { alphabet, maxLength: 1.5 }),
+		).toThrow("maxLength must be a non-negative integer");
+		expect(() =>
+			binarySearchString("", "cccc", predicate, { alphabet, maxLength }),
+		).toThrow(
+			"alwaysEnd and neverEnd must consist of the alphabet within maxLength",
+		);
+		expect(() =>
+			binarySearchString("", "d", predicate, { alphabet, maxLength }),
+		).toThrow(InvalidArgumentError);
+		expect(() =>
+			binarySearchString("c", "", predicate, { alphabet, maxLength }),
+		).toThrow(PreconditionError);
+	});
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "bun:test";
+import {
+	BoundaryNotFoundError,
+	binarySearchUnboundedBigint,
+	binarySearchUnboundedDouble,
+	binarySearchUnboundedInteger,
+} from "../src/unbounded.js";
+
+describe("binarySearchUnboundedInteger", () => {
+	it("should find the boundary in ascending direction", () => {
+		const probes: number[] = [];
+		const result = binarySearchUnboundedInteger(1, "asc", (v) => {
+			probes.push(v);
+			return v <= 1000;
+		});
+		expect(result).toBe(1000);
+		// alwaysEnd check, then 2, 3, 5, 9, …, 1025
+		expect(probes.slice(0, 5)).toStrictEqual([1, 2, 3, 5, 9]);
+		expect(probes.length).toBeLessThan(25);
+	});
+
+	it("should find the boundary in descending direction", () => {
+		const result = binarySearchUnboundedInteger(0, "desc", (v) => v >= -12345);
+		expect(result).toBe(-12345);
+	});
+
+	it("finds a boundary right next to alwaysEnd", () => {
+		expect(binarySearchUnboundedInteger(7, "asc", (v) => v <= 7)).toBe(7);
+	});
+
+	it("uses the growth factor and initial step", () => {
+		const probes: number[] = [];
+		binarySearchUnboundedInteger(
+			0,
+			"asc",
+			(v) => {
+				probes.push(v);
+				return v < 500;
+			},
+			{ growth: 10, initialStep: 5, safety: "nocheck" },
+		);
+		expect(probes.slice(0, 3)).toStrictEqual([5, 50, 500]);
+	});
+
+	it("throws a BoundaryNotFoundError at the limit", () => {
+		let error: unknown;
+		try {
+			binarySearchUnboundedInteger(0, "asc", () => true, { limit: 100 });
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(BoundaryNotFoundError);
+		expect(error).toBeInstanceOf(RangeError);
+		expect((error as BoundaryNotFoundError<number>).limit).toBe(100);
+	});
+
+	it("reaches the largest safe integer by default", () => {
+		expect(() => binarySearchUnboundedInteger(0, "asc", () => true)).toThrow(
+			BoundaryNotFoundError,
+		);
+		expect(
+			binarySearchUnboundedInteger(
+				0,
+				"asc",
+				(v) => v < Number.MAX_SAFE_INTEGER,
+			),
+		).toBe(Number.MAX_SAFE_INTEGER - 1);
+	});
+
+	it("throws when alwaysEnd does not satisfy the condition", () => {
+		expect(() => binarySearchUnboundedInteger(10, "asc", (v) => v < 5)).toThrow(
+			"alwaysEnd must satisfy the condition",
+		);
+	});
+
+	it("throws for invalid options", () => {
+		const predicate = (v: number) => v < 5;
+		expect(() =>
+			binarySearchUnboundedInteger(0, "asc", predicate, { growth: 1 }),
+		).toThrow("growth must be a finite number greater than 1");
+		expect(() =>
+			binarySearchUnboundedInteger(0, "asc", predicate, { initialStep: 0 }),
+		).toThrow("initialStep must be positive");
+		expect(() =>
+			binarySearchUnboundedInteger(0, "asc", predicate, { limit: -10 }),
+		).toThrow("limit must lie beyond alwaysEnd in the search direction");
+		expect(() => binarySearchUnboundedInteger(0.5, "asc", predicate)).toThrow(
+			"alwaysEnd, limit, and initialStep must be safe integers",
+		);
+	});
+});
+
+describe("binarySearchUnboundedBigint", () => {
+	it("should find the boundary far away", () => {
+		const result = binarySearchUnboundedBigint(
+			0n,
+			"asc",
+			(v) => v * v <= 10n ** 40n,
+		);
+		expect(result).toBe(10n ** 20n);
+	});
+
+	it("supports fractional growth factors", () => {
+		const result = binarySearchUnboundedBigint(0n, "desc", (v) => v > -1000n, {
+			growth: 1.5,
+		});
+		expect(result).toBe(-999n);
+	});
+
+	it("throws a BoundaryNotFoundError at the limit", () => {
+		expect(() =>
+			binarySearchUnboundedBigint(0n, "asc", () => true, { limit: 10n }),
+		).toThrow(BoundaryNotFoundError);
+	});
+});
+
+describe("binarySearchUnboundedDouble", () => {
+	it("should find the boundary with auto epsilon", () => {
+		const result = binarySearchUnboundedDouble(
+			0,
+			"asc",
+			(v) => Math.exp(v) <= 1e100,
+		);
+		expect(result).toBeCloseTo(100 * Math.LN10, 10);
+		expect(Math.exp(result)).toBeLessThanOrEqual(1e100);
+	});
+
+	it("should find the boundary with an explicit epsilon", () => {
+		const result = binarySearchUnboundedDouble(
+			-1,
+			"desc",
+			(v) => v > -7.5,
+			0.001,
+		);
+		expect(result).toBeGreaterThan(-7.5);
+		expect(result).toBeLessThanOrEqual(-7.499);
+	});
+
+	it("throws a BoundaryNotFoundError when nothing flips", () => {
+		expect(() => binarySearchUnboundedDouble(0, "asc", () => true)).toThrow(
+			BoundaryNotFoundError,
+		);
+	});
+
+	it("throws for infinite values", () => {
+		expect(() =>
+			binarySearchUnboundedDouble(0, "asc", () => true, "auto", {
+				limit: Number.POSITIVE_INFINITY,
+			}),
+		).toThrow("alwaysEnd, limit, and initialStep must be finite numbers");
+	});
+});
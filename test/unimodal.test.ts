@@ -0,0 +1,167 @@
+import { describe, expect, it } from "bun:test";
+import { UnimodalityError } from "../src/index.js";
+import {
+	ternarySearchBigint,
+	ternarySearchInteger,
+	unimodalSearchDouble,
+} from "../src/unimodal.js";
+
+describe("ternarySearchInteger", () => {
+	it("finds the maximum of a unimodal function", () => {
+		const fn = (v: number) => -((v - 37) ** 2);
+		expect(ternarySearchInteger(0, 100, fn)).toBe(37);
+		expect(ternarySearchInteger(100, 0, fn)).toBe(37);
+	});
+
+	it("finds the minimum", () => {
+		const fn = (v: number) => Math.abs(v + 12);
+		expect(ternarySearchInteger(-50, 50, fn, "min")).toBe(-12);
+	});
+
+	it("finds optima at the ends of the range", () => {
+		expect(ternarySearchInteger(0, 100, (v) => v)).toBe(100);
+		expect(ternarySearchInteger(0, 100, (v) => v, "min")).toBe(0);
+		expect(ternarySearchInteger(5, 5, (v) => v)).toBe(5);
+		expect(ternarySearchInteger(5, 6, (v) => -v)).toBe(5);
+	});
+
+	it("prefers the value nearer to from among equally good ones", () => {
+		const fn = (v: number) => -Math.abs(2 * v - 21);
+		expect(ternarySearchInteger(0, 100, fn)).toBe(10);
+		expect(ternarySearchInteger(100, 0, fn)).toBe(11);
+	});
+
+	it("agrees with a linear scan", () => {
+		for (let peak = 0; peak <= 30; peak++) {
+			const fn = (v: number) => (v <= peak ? v : 2 * peak - v);
+			expect(ternarySearchInteger(0, 30, fn)).toBe(peak);
+			expect(ternarySearchInteger(30, 0, fn, "max", "nocheck")).toBe(peak);
+		}
+	});
+
+	it("evaluates each value at most once", () => {
+		const seen = new Set<number>();
+		ternarySearchInteger(0, 1000, (v) => {
+			expect(seen.has(v)).toBe(false);
+			seen.add(v);
+			return -((v - 321) ** 2);
+		});
+	});
+
+	it("throws for functions with a valley in the check mode", () => {
+		// Two peaks, at 20 and 80
+		const fn = (v: number) => -Math.min(Math.abs(v - 20), Math.abs(v - 80));
+		try {
+			ternarySearchInteger(0, 100, fn);
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(UnimodalityError);
+			expect(error).toBeInstanceOf(RangeError);
+			const { left, middle, right } = error as UnimodalityError<number>;
+			expect(left).toBeLessThan(middle);
+			expect(middle).toBeLessThan(right);
+			expect(fn(middle)).toBeLessThan(fn(left));
+			expect(fn(middle)).toBeLessThan(fn(right));
+		}
+		expect(() =>
+			ternarySearchInteger(0, 100, fn, "max", "nocheck"),
+		).not.toThrow();
+	});
+
+	it("throws for invalid ranges", () => {
+		expect(() => ternarySearchInteger(0.5, 10, (v) => v)).toThrow(
+			"from and to must be safe integers",
+		);
+	});
+});
+
+describe("ternarySearchBigint", () => {
+	it("finds the optimum of a unimodal function", () => {
+		const fn = (v: bigint) => -((v - 12345n) ** 2n);
+		expect(ternarySearchBigint(0n, 10n ** 18n, fn)).toBe(12345n);
+		expect(ternarySearchBigint(10n ** 18n, 0n, (v) => -fn(v), "min")).toBe(
+			12345n,
+		);
+	});
+
+	it("accepts number results", () => {
+		expect(
+			ternarySearchBigint(-10n, 10n, (v) => -Math.abs(Number(v) - 3)),
+		).toBe(3n);
+	});
+});
+
+describe("unimodalSearchDouble", () => {
+	it("finds the maximum to the limit precision", () => {
+		const result = unimodalSearchDouble(0, Math.PI, Math.sin);
+		expect(result).toBeCloseTo(Math.PI / 2, 7);
+		expect(unimodalSearchDouble(Math.PI, 0, Math.sin)).toBeCloseTo(
+			Math.PI / 2,
+			7,
+		);
+	});
+
+	it("finds the minimum with an epsilon", () => {
+		const result = unimodalSearchDouble(
+			-10,
+			10,
+			(v) => (v - Math.E) ** 2,
+			"min",
+			1e-6,
+		);
+		expect(Math.abs(result - Math.E)).toBeLessThanOrEqual(1e-6);
+	});
+
+	it("converges toward the ends for monotonic functions", () => {
+		const result = unimodalSearchDouble(0, 1, (v) => v);
+		expect(result).toBeLessThanOrEqual(1);
+		expect(1 - result).toBeLessThan(1e-15);
+	});
+
+	it("finds the optimum over wide finite ranges", () => {
+		const fn = (v: number) => -Math.abs(v - 5);
+		for (const end of [1e20, 1e50, 1e300, Number.MAX_VALUE]) {
+			expect(unimodalSearchDouble(-end, end, fn)).toBeCloseTo(5, 14);
+			expect(unimodalSearchDouble(end, -end, fn)).toBeCloseTo(5, 14);
+		}
+		expect(
+			unimodalSearchDouble(-1e300, 1, (v) => Math.abs(v - 0.25), "min"),
+		).toBe(0.25);
+		expect(
+			unimodalSearchDouble(1e-300, 1e300, (v) => -Math.abs(v - 7e200)),
+		).toBe(7e200);
+	});
+
+	it("evaluates once per step", () => {
+		let evaluations = 0;
+		unimodalSearchDouble(
+			0,
+			1,
+			(v) => {
+				evaluations++;
+				return -((v - 0.3) ** 2);
+			},
+			"max",
+			1e-9,
+			"nocheck",
+		);
+		// The range shrinks by 1/φ per evaluation
+		const steps = Math.ceil(Math.log(1e9) / Math.log((1 + Math.sqrt(5)) / 2));
+		expect(evaluations).toBeLessThanOrEqual(steps + 2);
+	});
+
+	it("throws for functions with a valley in the check mode", () => {
+		expect(() => unimodalSearchDouble(0, 3 * Math.PI, Math.sin)).toThrow(
+			UnimodalityError,
+		);
+	});
+
+	it("throws for invalid arguments", () => {
+		expect(() => unimodalSearchDouble(0, Infinity, (v) => v)).toThrow(
+			"from and to must be finite numbers",
+		);
+		expect(() => unimodalSearchDouble(0, 1, (v) => v, "max", 0)).toThrow(
+			"epsilon must be positive",
+		);
+	});
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import {
+	binarySearchInteger,
+	integerDomain,
+	stepDomain,
+} from "../src/index.js";
+import {
+	binarySearchBigintWitness,
+	binarySearchDoubleWitness,
+	binarySearchGeneralizedWitness,
+	binarySearchIntegerWitness,
+} from "../src/witness.js";
+
+describe("binarySearchIntegerWitness", () => {
+	// Packs items into the fewest bins of the given capacity by first fit, or returns null
+	const items = [7, 5, 4, 4, 3, 2, 2, 1];
+	const pack = (bins: number) => {
+		const loads: number[][] = Array.from({ length: bins }, () => []);
+		for (const item of items) {
+			const bin = loads.find(
+				(load) => load.reduce((a, b) => a + b, 0) + item <= 10,
+			);
+			if (bin === undefined) return null;
+			bin.push(item);
+		}
+		return loads;
+	};
+
+	it("returns the witness at the boundary without extra evaluations", () => {
+		let evaluations = 0;
+		const result = binarySearchIntegerWitness(8, 0, (bins) => {
+			evaluations++;
+			return pack(bins);
+		});
+		let plainEvaluations = 0;
+		const plain = binarySearchInteger(8, 0, (bins) => {
+			plainEvaluations++;
+			return pack(bins) !== null;
+		});
+		expect(result.always).toBe(plain);
+		expect(result.never).toBe(plain - 1);
+		expect(result.witness).toStrictEqual(pack(plain) ?? undefined);
+		expect(evaluations).toBe(plainEvaluations);
+	});
+
+	it("accepts the explicit form", () => {
+		const result = binarySearchIntegerWitness(0, 100, (value) => ({
+			ok: value * value <= 180,
+			witness: value * value,
+		}));
+		expect(result).toStrictEqual({
+			always: 13,
+			never: 14,
+			iterations: 7,
+			witness: 169,
+		});
+		expect(
+			binarySearchIntegerWitness(0, 100, (value) => ({
+				ok: value <= 50,
+			})).witness,
+		).toBeUndefined();
+	});
+
+	it("keeps the witness of the boundary when it is alwaysEnd", () => {
+		expect(
+			binarySearchIntegerWitness(0, 1, (value) => (value === 0 ? "zero" : null))
+				.witness,
+		).toBe("zero");
+		expect(
+			binarySearchIntegerWitness(
+				0,
+				1,
+				(value) => (value === 0 ? "zero" : null),
+				"nocheck",
+			).witness,
+		).toBeUndefined();
+	});
+
+	it("returns the witness of the bracket found within the budget", () => {
+		const result = binarySearchIntegerWitness(
+			0,
+			1 << 20,
+			(value) => (value <= 1000 ? `at ${value}` : null),
+			"check",
+			{ maxEvaluations: 5 },
+		);
+		expect(result.stopped).toBe("maxEvaluations");
+		expect(result.witness).toBe(`at ${result.always}`);
+	});
+});
+
+describe("binarySearchBigintWitness", () => {
+	it("returns the witness at the boundary", () => {
+		expect(
+			binarySearchBigintWitness(0n, 10n ** 20n, (value) => {
+				const square = value * value;
+				return square <= 10n ** 30n ? square : null;
+			}),
+		).toMatchObject({ always: 10n ** 15n, witness: 10n ** 30n });
+	});
+});
+
+describe("binarySearchDoubleWitness", () => {
+	it("returns the witness at the boundary", () => {
+		for (const epsilon of ["auto", "exact", 1e-6] as const) {
+			const { always, witness } = binarySearchDoubleWitness(
+				0,
+				2,
+				(value) => ({ ok: value * value <= 2, witness: value * value }),
+				epsilon,
+			);
+			expect(witness).toBe(always * always);
+		}
+	});
+});
+
+describe("binarySearchGeneralizedWitness", () => {
+	it("returns the witness at the boundary of a domain", () => {
+		expect(
+			binarySearchGeneralizedWitness(
+				0,
+				100,
+				(value) => (value * value <= 180 ? [value] : null),
+				stepDomain(2),
+			),
+		).toMatchObject({ always: 12, never: 14, witness: [12] });
+	});
+
+	it("ignores witnesses of values sampled while verifying", () => {
+		const result = binarySearchGeneralizedWitness(
+			0,
+			100,
+			(value) => (value <= 60 ? { value } : null),
+			integerDomain,
+			"verify",
+			{ verifySamples: 20 },
+		);
+		expect(result.witness).toStrictEqual({ value: 60 });
+	});
+});